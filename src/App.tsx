@@ -12,9 +12,12 @@ import Modules from "./pages/Modules";
 import ModuleContent from "./pages/ModuleContent";
 import Quiz from "./pages/Quiz";
 import QuizResults from "./pages/QuizResults";
+import QuizReview from "./pages/QuizReview";
+import Review from "./pages/Review";
 import CreateModule from "./pages/CreateModule";
 import AdminAnalytics from "./pages/AdminAnalytics";
 import StudentComments from "./pages/StudentComments";
+import ImportQuestions from "./pages/ImportQuestions";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -35,10 +38,13 @@ const App = () => (
               <Route path="/modules/:id" element={<ModuleContent />} />
               <Route path="/quiz/:moduleId" element={<Quiz />} />
               <Route path="/quiz-results" element={<QuizResults />} />
+              <Route path="/quiz-results/:attemptId" element={<QuizReview />} />
+              <Route path="/review" element={<Review />} />
               <Route path="/admin/modules/new" element={<CreateModule />} />
               <Route path="/admin/modules/:id/edit" element={<CreateModule />} />
               <Route path="/admin/analytics" element={<AdminAnalytics />} />
               <Route path="/admin/comments" element={<StudentComments />} />
+              <Route path="/admin/import" element={<ImportQuestions />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
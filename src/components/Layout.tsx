@@ -2,6 +2,7 @@ import React from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
+import { NotificationsMenu } from '@/components/NotificationsMenu';
 import { BookOpen, Home, BarChart3, User, LogOut, Menu, Moon, Sun } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState, useEffect } from 'react';
@@ -108,6 +109,8 @@ export const Layout: React.FC<{
               {isDark ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
             </Button>
 
+            <NotificationsMenu />
+
             {/* User Menu */}
             <div className="hidden md:flex items-center space-x-4">
               <div className="flex items-center space-x-2 text-sm">
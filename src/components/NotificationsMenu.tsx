@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Older notifications are kept but not listed
+const NOTIFICATION_LIMIT = 20;
+
+/** The signed-in user's notifications, marked read once the menu has been opened. */
+export const NotificationsMenu: React.FC = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchNotifications = async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, title, body, link, read_at, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) {
+        console.error('Error fetching notifications:', error);
+        return;
+      }
+      setNotifications(data || []);
+    };
+
+    fetchNotifications();
+  }, [user?.id]);
+
+  const unread = notifications.filter(n => !n.read_at);
+
+  const markRead = async () => {
+    if (unread.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', unread.map(n => n.id));
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+    setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: readAt }));
+  };
+
+  // Unread ones stay highlighted until the menu closes
+  const changeOpen = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) markRead();
+  };
+
+  return (
+    <Popover open={open} onOpenChange={changeOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-10 w-10" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 font-medium">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b font-medium">Notifications</div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">You have no notifications.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map(notification => {
+              const content = (
+                <div className={cn("px-4 py-3 text-sm", !notification.read_at && "bg-primary/5")}>
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium">{notification.title}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {new Date(notification.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="text-muted-foreground">{notification.body}</p>
+                </div>
+              );
+
+              return notification.link ? (
+                <Link
+                  key={notification.id}
+                  to={notification.link}
+                  className="block hover:bg-muted"
+                  onClick={() => changeOpen(false)}
+                >
+                  {content}
+                </Link>
+              ) : (
+                <div key={notification.id}>{content}</div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationsMenu;
@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react';
+import { MathSegments } from '@/components/math/MathText';
+import { mathParagraphs } from '@/lib/math';
+
+interface MathContentProps {
+  content: string;
+  /** Applied to each paragraph. */
+  paragraphClassName?: string;
+}
+
+/** Multi-line content such as module text or explanations, one paragraph per line. */
+export const MathContent: React.FC<MathContentProps> = ({
+  content,
+  paragraphClassName = 'mb-4 text-muted-foreground leading-relaxed'
+}) => {
+  const paragraphs = useMemo(() => mathParagraphs(content), [content]);
+
+  return (
+    <>
+      {paragraphs.map((segments, index) =>
+        segments.length === 1 && segments[0].type === 'display' ? (
+          <div key={index} className={paragraphClassName}>
+            <MathSegments segments={segments} />
+          </div>
+        ) : (
+          <p key={index} className={paragraphClassName}>
+            <MathSegments segments={segments} />
+          </p>
+        )
+      )}
+    </>
+  );
+};
+
+export default MathContent;
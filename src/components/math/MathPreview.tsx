@@ -0,0 +1,23 @@
+import React from 'react';
+import { MathContent } from '@/components/math/MathContent';
+import { hasMath } from '@/lib/math';
+
+interface MathPreviewProps {
+  text: string;
+}
+
+/** Shows how text with math will render, once it has some. */
+export const MathPreview: React.FC<MathPreviewProps> = ({ text }) => {
+  if (!hasMath(text)) return null;
+
+  return (
+    <div className="mt-2 rounded-md border bg-muted/30 p-3" aria-label="Math preview">
+      <p className="text-xs font-medium text-muted-foreground mb-2">Preview</p>
+      <div className="text-sm">
+        <MathContent content={text} paragraphClassName="mb-2 last:mb-0 leading-relaxed" />
+      </div>
+    </div>
+  );
+};
+
+export default MathPreview;
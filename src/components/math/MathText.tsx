@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import { splitMath, type MathSegment } from '@/lib/math';
+
+// Malformed TeX renders in red in place rather than throwing
+const renderMath = (tex: string, displayMode: boolean) =>
+  katex.renderToString(tex, { displayMode, throwOnError: false, strict: 'ignore' });
+
+export const MathSegments: React.FC<{ segments: MathSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.type === 'text' ? (
+        <React.Fragment key={index}>{segment.value}</React.Fragment>
+      ) : (
+        <span
+          key={index}
+          className={segment.type === 'display' ? 'block my-2 overflow-x-auto overflow-y-hidden' : undefined}
+          dangerouslySetInnerHTML={{ __html: renderMath(segment.value, segment.type === 'display') }}
+        />
+      )
+    )}
+  </>
+);
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+/** Text with $...$ inline and $$...$$ display math, for questions, options and other short text. */
+export const MathText: React.FC<MathTextProps> = ({ text, className }) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+  return (
+    <span className={className}>
+      <MathSegments segments={segments} />
+    </span>
+  );
+};
+
+export default MathText;
@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RefreshCw } from 'lucide-react';
+import { NumericAnswerEditor } from '@/components/quiz/NumericAnswerEditor';
+import { VariablesEditor } from '@/components/quiz/VariablesEditor';
+import {
+  fillTemplate,
+  formatCalculatedAnswer,
+  generateParams,
+  validateCalculated
+} from '@/lib/quiz/calculated';
+import type { CalculatedAnswerConfig } from '@/lib/quiz/types';
+
+interface CalculatedQuestionEditorProps {
+  question: string;
+  formula: string;
+  config: CalculatedAnswerConfig;
+  onFormulaChange: (value: string) => void;
+  onConfigChange: (config: CalculatedAnswerConfig) => void;
+}
+
+export const CalculatedQuestionEditor: React.FC<CalculatedQuestionEditorProps> = ({
+  question,
+  formula,
+  config,
+  onFormulaChange,
+  onConfigChange
+}) => {
+  const [previewSeed, setPreviewSeed] = useState(() => crypto.randomUUID());
+  const variables = useMemo(() => config.variables || [], [config.variables]);
+
+  const error = formula.trim() ? validateCalculated(formula, variables) : null;
+  const previewParams = useMemo(() => generateParams(variables, previewSeed), [variables, previewSeed]);
+
+  return (
+    <div className="space-y-4">
+      <VariablesEditor
+        variables={variables}
+        onChange={(updated) => onConfigChange({ ...config, variables: updated })}
+      />
+
+      <div>
+        <Label>Answer Formula</Label>
+        <Input
+          value={formula}
+          onChange={(e) => onFormulaChange(e.target.value)}
+          placeholder="e.g. 1000 * v * (D / 100) / 0.001"
+          className="font-mono"
+        />
+        {error ? (
+          <p className="text-sm text-destructive mt-1">{error}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground mt-1">
+            Supports + - * / ^, parentheses, pi, e, sqrt, exp, ln, log, abs, sin, cos, tan, pow, min and max.
+          </p>
+        )}
+      </div>
+
+      <NumericAnswerEditor config={config} onConfigChange={onConfigChange} />
+
+      {formula.trim() && !error && (
+        <div className="rounded-md bg-muted p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Preview</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setPreviewSeed(crypto.randomUUID())}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              New Values
+            </Button>
+          </div>
+          <p className="text-sm">{fillTemplate(question, previewParams) || 'Enter the question text above.'}</p>
+          <p className="text-sm text-muted-foreground">
+            Expected answer: <span className="font-medium text-foreground">
+              {formatCalculatedAnswer(formula, config, previewParams)}
+            </span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalculatedQuestionEditor;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Lightbulb } from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { hintPenalty } from '@/lib/quiz/scoring';
+import type { QuestionHint } from '@/lib/quiz/types';
+
+interface HintPanelProps {
+  /** Penalty of every hint the question has, in order, as a percentage of its points. */
+  penalties: number[];
+  revealed: QuestionHint[];
+  disabled?: boolean;
+  onReveal: () => void;
+}
+
+export const HintPanel: React.FC<HintPanelProps> = ({ penalties, revealed, disabled, onReveal }) => {
+  if (penalties.length === 0) return null;
+
+  const nextPenalty = penalties[revealed.length];
+  const penaltySoFar = Math.round(hintPenalty(revealed, revealed.length) * 100);
+
+  return (
+    <div className="space-y-2">
+      {revealed.map((hint, index) => (
+        <div key={index} className="flex items-start rounded-md bg-muted p-3 text-sm">
+          <Lightbulb className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-secondary" />
+          <span>
+            <span className="font-medium">Hint {index + 1}: </span>
+            <MathText text={hint.text} />
+          </span>
+        </div>
+      ))}
+
+      {penaltySoFar > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Hints used on this question cost {penaltySoFar}% of its points.
+        </p>
+      )}
+
+      {nextPenalty !== undefined && (
+        <Button variant="outline" size="sm" onClick={onReveal} disabled={disabled}>
+          <Lightbulb className="h-4 w-4 mr-2" />
+          Show hint {revealed.length + 1} of {penalties.length}
+          {nextPenalty > 0 && ` (-${nextPenalty}% of points)`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default HintPanel;
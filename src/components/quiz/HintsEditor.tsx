@@ -0,0 +1,74 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Trash2 } from 'lucide-react';
+import { MathPreview } from '@/components/math/MathPreview';
+import type { QuestionHint } from '@/lib/quiz/types';
+
+interface HintsEditorProps {
+  hints: QuestionHint[];
+  onChange: (hints: QuestionHint[]) => void;
+}
+
+const DEFAULT_PENALTY = 10;
+
+export const HintsEditor: React.FC<HintsEditorProps> = ({ hints, onChange }) => {
+  const updateHint = (index: number, updates: Partial<QuestionHint>) => {
+    onChange(hints.map((hint, i) => i === index ? { ...hint, ...updates } : hint));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Hints (Optional)</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...hints, { text: '', penalty: DEFAULT_PENALTY }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Hint
+        </Button>
+      </div>
+      {hints.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Students reveal hints in this order. Each one deducts its penalty from the points the answer earns.
+        </p>
+      )}
+
+      {hints.map((hint, index) => (
+        <div key={index} className="grid grid-cols-[1fr_8rem_auto] gap-2 items-start">
+          <div>
+            <Textarea
+              value={hint.text}
+              onChange={(e) => updateHint(index, { text: e.target.value })}
+              placeholder={`Hint ${index + 1}...`}
+              rows={2}
+            />
+            <MathPreview text={hint.text} />
+          </div>
+          <div>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={hint.penalty}
+              onChange={(e) => updateHint(index, { penalty: Number(e.target.value) })}
+              aria-label={`Hint ${index + 1} penalty (%)`}
+            />
+            <span className="text-xs text-muted-foreground">% of points</span>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(hints.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HintsEditor;
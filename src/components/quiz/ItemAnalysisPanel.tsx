@@ -0,0 +1,244 @@
+import React, { useEffect, useId, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Check, Flag } from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { parseOptions } from '@/lib/quiz/draw';
+import { analyzeItems, ITEM_FLAGS, MIN_FLAG_RESPONSES } from '@/lib/quiz/item-analysis';
+import type { AnalyzedResponse, ItemStats } from '@/lib/quiz/item-analysis';
+import type { QuestionType, QuizMode } from '@/lib/quiz/types';
+import { formatTimeSpent } from '@/lib/utils';
+
+interface ItemAnalysisPanelProps {
+  modules: { id: string; title: string }[];
+  /** Which attempts the statistics are computed from. */
+  modeFilter: QuizMode | 'all';
+}
+
+interface AnalyzedQuiz {
+  id: string;
+  question: string;
+  type: QuestionType;
+  options: string[];
+  correct_answer: string;
+}
+
+// Responses are read a page at a time, as the API caps how many rows one request returns
+const PAGE_SIZE = 1000;
+
+const formatStatistic = (value: number | null) => value === null ? '—' : value.toFixed(2);
+
+const fetchResponses = async (moduleId: string, modeFilter: QuizMode | 'all') => {
+  const responses: AnalyzedResponse[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('quiz_responses')
+      .select('session_id, quiz_id, answer, credit, time_spent_ms, quiz_sessions!inner(module_id, mode)')
+      .eq('quiz_sessions.module_id', moduleId);
+
+    if (modeFilter !== 'all') {
+      query = query.eq('quiz_sessions.mode', modeFilter);
+    }
+
+    const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    (data || []).forEach(r => {
+      if (r.quiz_id) {
+        responses.push({
+          session_id: r.session_id,
+          quiz_id: r.quiz_id,
+          answer: r.answer,
+          credit: Number(r.credit),
+          time_spent_ms: r.time_spent_ms
+        });
+      }
+    });
+    if (!data || data.length < PAGE_SIZE) return responses;
+  }
+};
+
+/** Per-question statistics for one module's quiz. */
+export const ItemAnalysisPanel: React.FC<ItemAnalysisPanelProps> = ({ modules, modeFilter }) => {
+  const flaggedOnlyId = useId();
+  const [moduleId, setModuleId] = useState(modules[0]?.id ?? '');
+  const [quizzes, setQuizzes] = useState<AnalyzedQuiz[]>([]);
+  const [stats, setStats] = useState<ItemStats[]>([]);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!moduleId && modules.length > 0) setModuleId(modules[0].id);
+  }, [modules, moduleId]);
+
+  useEffect(() => {
+    if (!moduleId) return;
+
+    const fetchItemStats = async () => {
+      setLoading(true);
+      try {
+        const [{ data: quizzesData, error: quizzesError }, responses] = await Promise.all([
+          supabase
+            .from('quizzes')
+            .select('id, question, type, options, correct_answer')
+            .eq('module_id', moduleId)
+            .is('deleted_at', null)
+            .order('created_at'),
+          fetchResponses(moduleId, modeFilter)
+        ]);
+
+        if (quizzesError) throw quizzesError;
+
+        const moduleQuizzes = (quizzesData || []).map(quiz => ({ ...quiz, options: parseOptions(quiz.options) }));
+        setQuizzes(moduleQuizzes);
+        setStats(analyzeItems(moduleQuizzes, responses));
+      } catch (error) {
+        console.error('Error fetching item analysis:', error);
+        setQuizzes([]);
+        setStats([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchItemStats();
+  }, [moduleId, modeFilter]);
+
+  const quizzesById = new Map(quizzes.map(quiz => [quiz.id, quiz]));
+  const flaggedCount = stats.filter(item => item.flags.length > 0).length;
+  const shownStats = flaggedOnly ? stats.filter(item => item.flags.length > 0) : stats;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle>Item Analysis</CardTitle>
+            <CardDescription>
+              How each question performs. Questions are flagged once they have {MIN_FLAG_RESPONSES} responses.
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2">
+              <Switch id={flaggedOnlyId} checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+              <Label htmlFor={flaggedOnlyId}>Flagged only ({flaggedCount})</Label>
+            </div>
+            <Select value={moduleId} onValueChange={setModuleId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Choose a module" />
+              </SelectTrigger>
+              <SelectContent>
+                {modules.map(module => (
+                  <SelectItem key={module.id} value={module.id}>{module.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-24 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : shownStats.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            {stats.length === 0 ? 'This module has no quiz questions.' : 'No questions are flagged.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {shownStats.map(item => {
+              const quiz = quizzesById.get(item.quiz_id)!;
+              return (
+                <div key={item.quiz_id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <p className="font-medium line-clamp-2">
+                      {quizzes.indexOf(quiz) + 1}. <MathText text={quiz.question} />
+                    </p>
+                    <div className="flex flex-wrap justify-end gap-1 shrink-0">
+                      {item.flags.map(flag => {
+                        const info = ITEM_FLAGS.find(f => f.value === flag)!;
+                        return (
+                          <Badge
+                            key={flag}
+                            variant={flag === 'possibly_miskeyed' ? 'destructive' : 'secondary'}
+                            title={info.description}
+                          >
+                            <Flag className="h-3 w-3 mr-1" />
+                            {info.label}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-5">
+                    <div>
+                      <div className="text-muted-foreground">Responses</div>
+                      <div className="font-semibold">{item.responses}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Correct</div>
+                      <div className="font-semibold">{item.responses > 0 ? `${item.percent_correct}%` : '—'}</div>
+                    </div>
+                    <div title="Average credit of the top 27% of attempts minus the bottom 27%, ranked on the rest of the quiz">
+                      <div className="text-muted-foreground">Discrimination</div>
+                      <div className="font-semibold">{formatStatistic(item.discrimination)}</div>
+                    </div>
+                    <div title="Correlation between credit on this question and on the rest of the quiz">
+                      <div className="text-muted-foreground">Point-biserial</div>
+                      <div className="font-semibold">{formatStatistic(item.point_biserial)}</div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground">Avg. Time</div>
+                      <div className="font-semibold">{formatTimeSpent(item.average_time_ms)}</div>
+                    </div>
+                  </div>
+
+                  {item.options.length > 0 && item.responses > 0 && (
+                    <div className="space-y-1">
+                      <div className="grid grid-cols-[1fr_4rem_4rem_4rem] gap-2 text-xs text-muted-foreground">
+                        <span>Option</span>
+                        <span className="text-right">Chosen</span>
+                        <span className="text-right">Top 27%</span>
+                        <span className="text-right">Bottom 27%</span>
+                      </div>
+                      {item.options.map(option => (
+                        <div key={option.option} className="grid grid-cols-[1fr_4rem_4rem_4rem] gap-2 items-center text-sm">
+                          <div className="relative rounded bg-muted overflow-hidden">
+                            <div
+                              className={`absolute inset-y-0 left-0 ${option.is_key ? 'bg-accent/30' : 'bg-primary/15'}`}
+                              style={{ width: `${option.share * 100}%` }}
+                            />
+                            <span className="relative flex items-center px-2 py-1">
+                              {option.is_key && <Check className="h-3 w-3 mr-1 text-accent shrink-0" />}
+                              <MathText text={option.option} />
+                            </span>
+                          </div>
+                          <span className="text-right">{Math.round(option.share * 100)}%</span>
+                          <span className="text-right text-muted-foreground">{Math.round(option.upper_share * 100)}%</span>
+                          <span className="text-right text-muted-foreground">{Math.round(option.lower_share * 100)}%</span>
+                        </div>
+                      ))}
+                      {item.omitted > 0 && (
+                        <p className="text-xs text-muted-foreground">{item.omitted} left unanswered</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ItemAnalysisPanel;
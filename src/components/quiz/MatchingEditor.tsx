@@ -0,0 +1,109 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2 } from 'lucide-react';
+import { MathPreview } from '@/components/math/MathPreview';
+import { formatSelection, parseSelection } from '@/lib/quiz/multi-select';
+
+export interface MatchingValue {
+  prompts: string[];
+  /** JSON array of the match for each prompt. */
+  correctAnswer: string;
+  /** Every option students choose from: the matches in prompt order, then any distractors. */
+  options: string[];
+}
+
+interface MatchingEditorProps extends MatchingValue {
+  onChange: (value: MatchingValue) => void;
+}
+
+export const MatchingEditor: React.FC<MatchingEditorProps> = ({ prompts, correctAnswer, options, onChange }) => {
+  const matches = prompts.map((_, index) => parseSelection(correctAnswer)[index] ?? '');
+  const distractors = options.slice(prompts.length);
+
+  const update = (updatedPrompts: string[], updatedMatches: string[], updatedDistractors: string[]) => onChange({
+    prompts: updatedPrompts,
+    correctAnswer: formatSelection(updatedMatches),
+    options: [...updatedMatches, ...updatedDistractors]
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Pairs</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update([...prompts, ''], [...matches, ''], distractors)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Pair
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Students match each item on the left with one from the shuffled list on the right. Each correct match earns an equal share of the points.
+        </p>
+        {prompts.map((prompt, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+            <Input
+              value={prompt}
+              onChange={(e) => update(prompts.map((p, i) => i === index ? e.target.value : p), matches, distractors)}
+              placeholder={`Item ${index + 1}...`}
+            />
+            <Input
+              value={matches[index]}
+              onChange={(e) => update(prompts, matches.map((m, i) => i === index ? e.target.value : m), distractors)}
+              placeholder="Matches with..."
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update(prompts.filter((_, i) => i !== index), matches.filter((_, i) => i !== index), distractors)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <MathPreview text={prompts.map((prompt, index) => `${prompt} → ${matches[index]}`).join('\n')} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Distractors (Optional)</Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => update(prompts, matches, [...distractors, ''])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Distractor
+          </Button>
+        </div>
+        {distractors.map((distractor, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <Input
+              value={distractor}
+              onChange={(e) => update(prompts, matches, distractors.map((d, i) => i === index ? e.target.value : d))}
+              placeholder="Extra option that matches nothing..."
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update(prompts, matches, distractors.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MatchingEditor;
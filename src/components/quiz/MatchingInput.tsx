@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X } from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { formatSelection, parseSelection } from '@/lib/quiz/multi-select';
+import { setMatch } from '@/lib/quiz/matching';
+
+interface MatchingInputProps {
+  prompts: string[];
+  /** Matches to choose from, in the order they were presented. */
+  options: string[];
+  /** JSON array of the option matched to each prompt. */
+  value?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+export const MatchingInput: React.FC<MatchingInputProps> = ({ prompts, options, value, disabled, onChange }) => {
+  const matches = parseSelection(value);
+  const unused = options.filter(option => !matches.includes(option));
+  const [dragged, setDragged] = useState<string | null>(null);
+
+  const match = (index: number, option: string) => onChange(setMatch(value, index, option, prompts.length));
+
+  const clear = (index: number) => {
+    const updated = prompts.map((_, i) => i === index ? '' : matches[i] ?? '');
+    onChange(updated.some(Boolean) ? formatSelection(updated) : '');
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Choose a match for each item, or drag a match onto it. Each match can be used once.
+      </p>
+
+      <div className="flex flex-wrap gap-2 min-h-8" aria-label="Unused matches">
+        {unused.map(option => (
+          <Badge
+            key={option}
+            variant="outline"
+            draggable={!disabled}
+            onDragStart={() => setDragged(option)}
+            onDragEnd={() => setDragged(null)}
+            className={`px-3 py-1 text-sm font-normal ${disabled ? '' : 'cursor-grab'}`}
+          >
+            <MathText text={option} />
+          </Badge>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {prompts.map((prompt, index) => (
+          <div
+            key={index}
+            onDragOver={e => e.preventDefault()}
+            onDrop={e => {
+              e.preventDefault();
+              if (dragged && !disabled) match(index, dragged);
+              setDragged(null);
+            }}
+            className={`grid grid-cols-1 md:grid-cols-2 gap-2 items-center rounded-md border p-3 ${
+              dragged ? 'border-dashed border-primary' : ''
+            }`}
+          >
+            <MathText text={prompt} className="font-medium" />
+            <div className="flex items-center gap-2">
+              <Select
+                value={matches[index] || ''}
+                onValueChange={option => match(index, option)}
+                disabled={disabled}
+              >
+                <SelectTrigger aria-label={`Match for ${prompt}`}>
+                  <SelectValue placeholder="Choose a match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map(option => (
+                    <SelectItem key={option} value={option}>
+                      <MathText text={option} />
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {matches[index] && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => clear(index)}
+                  disabled={disabled}
+                  aria-label={`Clear match for ${prompt}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MatchingInput;
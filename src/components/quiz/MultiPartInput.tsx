@@ -0,0 +1,112 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Check, X } from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { MultiSelectInput } from '@/components/quiz/MultiSelectInput';
+import { NumericAnswerInput } from '@/components/quiz/NumericAnswerInput';
+import { fillTemplate } from '@/lib/quiz/calculated';
+import { parsePartAnswers, partLabel, partWeights, setPartAnswer } from '@/lib/quiz/multipart';
+import { pointsAwarded } from '@/lib/quiz/scoring';
+import type { PartFeedback, QuestionParams, QuestionPart } from '@/lib/quiz/types';
+
+interface MultiPartInputProps {
+  parts: QuestionPart[];
+  params: QuestionParams;
+  /** Points the whole question is worth, split between the parts by weight. */
+  points: number;
+  /** JSON array with each part's answer. */
+  value?: string;
+  feedback?: PartFeedback[];
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+export const MultiPartInput: React.FC<MultiPartInputProps> = ({
+  parts,
+  params,
+  points,
+  value,
+  feedback,
+  disabled,
+  onChange
+}) => {
+  const answers = parsePartAnswers(value);
+  const weights = partWeights(parts);
+
+  return (
+    <div className="space-y-4">
+      {parts.map((part, index) => {
+        const answer = answers[index] || '';
+        const result = feedback?.[index];
+        const partPoints = pointsAwarded(weights[index], points);
+        const update = (partAnswer: string) => onChange(setPartAnswer(value, index, partAnswer));
+
+        return (
+          <div key={index} className="space-y-3 rounded-md border p-4">
+            <div className="flex items-start justify-between gap-3">
+              <p className="font-medium">
+                {partLabel(index)} <MathText text={fillTemplate(part.prompt, params)} />
+              </p>
+              <Badge variant="outline" className="shrink-0">
+                {result ? `${pointsAwarded(result.credit, partPoints)} / ${partPoints}` : partPoints} pt{partPoints === 1 ? '' : 's'}
+              </Badge>
+            </div>
+
+            {(part.type === 'numeric' || part.type === 'calculated') && (
+              <NumericAnswerInput value={answer} unit={part.answer_config?.unit} disabled={disabled} onChange={update} />
+            )}
+
+            {part.type === 'multi' && (
+              <MultiSelectInput options={part.options || []} value={answer} disabled={disabled} onChange={update} />
+            )}
+
+            {part.type === 'short' && (
+              <Input
+                value={answer}
+                onChange={(e) => update(e.target.value)}
+                placeholder="Type your answer..."
+                disabled={disabled}
+              />
+            )}
+
+            {part.type === 'mcq' && (
+              <div className="space-y-2">
+                {(part.options || []).map((option, optionIndex) => (
+                  <Button
+                    key={optionIndex}
+                    variant={answer === option ? "default" : "outline"}
+                    className="w-full justify-start text-left h-auto p-3"
+                    onClick={() => update(option)}
+                    disabled={disabled}
+                  >
+                    <MathText text={option} />
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {result && (
+              <div className="space-y-1 text-sm">
+                <div className={`flex items-center font-medium ${result.is_correct ? 'text-accent' : result.credit > 0 ? 'text-secondary' : 'text-destructive'}`}>
+                  {result.is_correct ? <Check className="h-4 w-4 mr-2" /> : <X className="h-4 w-4 mr-2" />}
+                  {result.is_correct ? 'Correct' : result.credit > 0 ? 'Partially correct' : 'Not quite'}
+                  {result.carried_forward && <Badge variant="secondary" className="ml-2">Carried forward</Badge>}
+                </div>
+                {result.feedback && <p className="text-muted-foreground">{result.feedback}</p>}
+                {!result.is_correct && (
+                  <p>
+                    Correct answer: <MathText text={result.correct_answer} className="font-medium" />
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MultiPartInput;
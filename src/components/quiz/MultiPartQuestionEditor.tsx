@@ -0,0 +1,184 @@
+import React, { useId } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
+import { MathPreview } from '@/components/math/MathPreview';
+import { NumericAnswerEditor } from '@/components/quiz/NumericAnswerEditor';
+import { OptionsEditor } from '@/components/quiz/OptionsEditor';
+import { ShortAnswerEditor } from '@/components/quiz/ShortAnswerEditor';
+import { VariablesEditor } from '@/components/quiz/VariablesEditor';
+import { blankPart, PART_TYPES, partLabel, partReference, validateParts } from '@/lib/quiz/multipart';
+import type { AnswerConfig, PartType, QuestionPart } from '@/lib/quiz/types';
+
+interface MultiPartQuestionEditorProps {
+  config: AnswerConfig;
+  onConfigChange: (config: AnswerConfig) => void;
+}
+
+interface PartEditorProps {
+  part: QuestionPart;
+  index: number;
+  onChange: (part: QuestionPart) => void;
+  onRemove: () => void;
+}
+
+const PartEditor: React.FC<PartEditorProps> = ({ part, index, onChange, onRemove }) => {
+  const carryForwardId = useId();
+  const config = part.answer_config || {};
+
+  const update = (updates: Partial<QuestionPart>) => onChange({ ...part, ...updates });
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">Part {partLabel(index)}</span>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div>
+        <Label>Prompt</Label>
+        <Input
+          value={part.prompt}
+          onChange={(e) => update({ prompt: e.target.value })}
+          placeholder="e.g. Find the Reynolds number."
+        />
+        <MathPreview text={part.prompt} />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label>Answer Type</Label>
+          <Select
+            value={part.type}
+            onValueChange={(value) => onChange(blankPart(value as PartType, part.prompt))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PART_TYPES.map(type => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label>Weight</Label>
+          <Input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={part.weight ?? 1}
+            onChange={(e) => update({ weight: Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {(part.type === 'mcq' || part.type === 'multi') && (
+        <OptionsEditor
+          multiple={part.type === 'multi'}
+          options={part.options || []}
+          correctAnswer={part.correct_answer}
+          config={config}
+          onOptionsChange={(options, correctAnswer) => update({ options, correct_answer: correctAnswer })}
+          onCorrectAnswerChange={(value) => update({ correct_answer: value })}
+          onConfigChange={(updated) => update({ answer_config: updated })}
+        />
+      )}
+
+      {part.type === 'numeric' && (
+        <NumericAnswerEditor
+          correctAnswer={part.correct_answer}
+          config={config}
+          onCorrectAnswerChange={(value) => update({ correct_answer: value })}
+          onConfigChange={(updated) => update({ answer_config: updated })}
+        />
+      )}
+
+      {part.type === 'calculated' && (
+        <>
+          <div>
+            <Label>Answer Formula</Label>
+            <Input
+              value={part.correct_answer}
+              onChange={(e) => update({ correct_answer: e.target.value })}
+              placeholder={index > 0 ? `e.g. ${partReference(index - 1)} * k / D` : 'e.g. rho * v * D / mu'}
+              className="font-mono"
+            />
+            <p className="text-sm text-muted-foreground mt-1">
+              Use the question's variables{index > 0 && ` and earlier numeric parts as ${partReference(0)}, ${partReference(1)}, ...`}
+            </p>
+          </div>
+
+          <NumericAnswerEditor config={config} onConfigChange={(updated) => update({ answer_config: updated })} />
+
+          {index > 0 && (
+            <div className="flex items-center space-x-3">
+              <Switch
+                id={carryForwardId}
+                checked={!!part.carry_forward}
+                onCheckedChange={(checked) => update({ carry_forward: checked })}
+              />
+              <Label htmlFor={carryForwardId}>Carry forward: accept answers that follow from the student's earlier parts</Label>
+            </div>
+          )}
+        </>
+      )}
+
+      {part.type === 'short' && (
+        <ShortAnswerEditor
+          correctAnswer={part.correct_answer}
+          config={config}
+          onCorrectAnswerChange={(value) => update({ correct_answer: value })}
+          onConfigChange={(updated) => update({ answer_config: updated })}
+        />
+      )}
+    </div>
+  );
+};
+
+export const MultiPartQuestionEditor: React.FC<MultiPartQuestionEditorProps> = ({ config, onConfigChange }) => {
+  const parts = config.parts || [];
+  const error = validateParts(parts, config.variables);
+
+  const updateParts = (updated: QuestionPart[]) => onConfigChange({ ...config, parts: updated });
+
+  return (
+    <div className="space-y-4">
+      <VariablesEditor
+        variables={config.variables || []}
+        onChange={(variables) => onConfigChange({ ...config, variables })}
+      />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Parts</Label>
+          <Button type="button" variant="outline" size="sm" onClick={() => updateParts([...parts, blankPart('numeric')])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Part
+          </Button>
+        </div>
+
+        {parts.map((part, index) => (
+          <PartEditor
+            key={index}
+            part={part}
+            index={index}
+            onChange={(updated) => updateParts(parts.map((p, i) => i === index ? updated : p))}
+            onRemove={() => updateParts(parts.filter((_, i) => i !== index))}
+          />
+        ))}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default MultiPartQuestionEditor;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { CheckSquare, Square } from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { parseSelection, toggleSelection } from '@/lib/quiz/multi-select';
+
+interface MultiSelectInputProps {
+  options: string[];
+  /** JSON array of the selected option text. */
+  value?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+export const MultiSelectInput: React.FC<MultiSelectInputProps> = ({ options, value, disabled, onChange }) => {
+  const selected = parseSelection(value);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">Select all that apply.</p>
+      {options.map((option, index) => {
+        const isSelected = selected.includes(option);
+        return (
+          <motion.div
+            key={index}
+            whileHover={{ scale: 1.01 }}
+            whileTap={{ scale: 0.99 }}
+          >
+            <Button
+              variant={isSelected ? "default" : "outline"}
+              className="w-full justify-start text-left h-auto p-4"
+              role="checkbox"
+              aria-checked={isSelected}
+              onClick={() => onChange(toggleSelection(value, option))}
+              disabled={disabled}
+            >
+              {isSelected ? <CheckSquare className="h-5 w-5 mr-3 shrink-0" /> : <Square className="h-5 w-5 mr-3 shrink-0" />}
+              <MathText text={option} />
+            </Button>
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MultiSelectInput;
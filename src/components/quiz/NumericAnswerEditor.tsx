@@ -0,0 +1,117 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { QUANTITIES } from '@/lib/quiz/units';
+import type { NumericAnswerConfig, ToleranceType } from '@/lib/quiz/types';
+
+interface NumericAnswerEditorProps {
+  // Omitted for calculated questions, whose answer comes from a formula
+  correctAnswer?: string;
+  config: NumericAnswerConfig;
+  onCorrectAnswerChange?: (value: string) => void;
+  onConfigChange: (config: NumericAnswerConfig) => void;
+}
+
+const DIMENSIONLESS = 'none';
+
+export const NumericAnswerEditor: React.FC<NumericAnswerEditorProps> = ({
+  correctAnswer,
+  config,
+  onCorrectAnswerChange,
+  onConfigChange
+}) => {
+  const updateConfig = (updates: Partial<NumericAnswerConfig>) => {
+    onConfigChange({ ...config, ...updates });
+  };
+
+  const parseOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        {onCorrectAnswerChange && (
+          <div>
+            <Label>Correct Value</Label>
+            <Input
+              type="text"
+              inputMode="decimal"
+              value={correctAnswer}
+              onChange={(e) => onCorrectAnswerChange(e.target.value)}
+              placeholder="e.g. 1.25e3"
+            />
+          </div>
+        )}
+
+        <div>
+          <Label>Unit</Label>
+          <Select
+            value={config.unit || DIMENSIONLESS}
+            onValueChange={(value) => updateConfig({ unit: value === DIMENSIONLESS ? undefined : value })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select unit" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DIMENSIONLESS}>Dimensionless</SelectItem>
+              {QUANTITIES.map(quantity => (
+                <SelectGroup key={quantity.id}>
+                  <SelectLabel>{quantity.name}</SelectLabel>
+                  {quantity.units.map(unit => (
+                    <SelectItem key={unit.symbol} value={unit.symbol}>
+                      {unit.symbol}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <Label>Tolerance Type</Label>
+          <Select
+            value={config.tolerance_type || 'relative'}
+            onValueChange={(value) => updateConfig({ tolerance_type: value as ToleranceType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="relative">Relative (%)</SelectItem>
+              <SelectItem value="absolute">Absolute</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label>Tolerance</Label>
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            value={config.tolerance ?? ''}
+            onChange={(e) => updateConfig({ tolerance: parseOptionalNumber(e.target.value) })}
+            placeholder={config.tolerance_type === 'absolute' ? 'e.g. 0.5' : 'e.g. 2'}
+          />
+        </div>
+
+        <div>
+          <Label>Significant Figures (Optional)</Label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={config.sig_figs ?? ''}
+            onChange={(e) => updateConfig({ sig_figs: parseOptionalNumber(e.target.value) })}
+            placeholder="Any"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NumericAnswerEditor;
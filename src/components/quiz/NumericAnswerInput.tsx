@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { findQuantity, parseUnit } from '@/lib/quiz/units';
+import { formatNumericAnswer, parseNumericAnswer } from '@/lib/quiz/numeric';
+
+interface NumericAnswerInputProps {
+  value?: string;
+  /** Unit the question is authored in; students may answer in any equivalent unit. */
+  unit?: string;
+  disabled?: boolean;
+  onChange: (answer: string) => void;
+}
+
+// Answers in one of the listed units show as a value and a selected unit; any other unit stays typed out
+const splitAnswer = (value: string, units: string[], fallbackUnit?: string): [string, string | undefined] => {
+  const separator = value.indexOf(' ');
+  const answeredUnit = value.slice(separator + 1);
+  return separator !== -1 && units.includes(answeredUnit)
+    ? [value.slice(0, separator), answeredUnit]
+    : [value, fallbackUnit];
+};
+
+export const NumericAnswerInput: React.FC<NumericAnswerInputProps> = ({ value = '', unit, disabled, onChange }) => {
+  const units = unit ? findQuantity(unit)?.units ?? [{ symbol: unit, factor: 1 }] : [];
+  const [initialAmount, initialUnit] = splitAnswer(value, units.map(option => option.symbol), unit);
+  const [amount, setAmount] = useState(initialAmount);
+  const [selectedUnit, setSelectedUnit] = useState(initialUnit);
+  const typedUnit = parseNumericAnswer(amount)?.unit;
+
+  // A unit typed after the value, e.g. "3200 J/s", is used instead of the selected one
+  const update = (nextAmount: string, nextUnit?: string) => {
+    setAmount(nextAmount);
+    setSelectedUnit(nextUnit);
+    const typed = parseNumericAnswer(nextAmount)?.unit;
+    onChange(!nextAmount.trim() ? '' : typed ? nextAmount.trim() : formatNumericAnswer(nextAmount, nextUnit));
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center space-x-2">
+        <Input
+          type="text"
+          inputMode={unit ? 'text' : 'decimal'}
+          value={amount}
+          onChange={(e) => update(e.target.value, selectedUnit)}
+          placeholder={unit ? 'Enter a value, e.g. 1.25e3 or 3.2 kW' : 'Enter a value, e.g. 1.25e3'}
+          disabled={disabled}
+          className="flex-1"
+        />
+        {units.length > 0 && (
+          <Select
+            value={selectedUnit}
+            onValueChange={(next) => update(amount, next)}
+            disabled={disabled || !!typedUnit}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Unit" />
+            </SelectTrigger>
+            <SelectContent>
+              {units.map(option => (
+                <SelectItem key={option.symbol} value={option.symbol}>
+                  {option.symbol}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {typedUnit && !parseUnit(typedUnit) && (
+        <p className="text-sm text-muted-foreground">"{typedUnit}" isn't a recognized unit.</p>
+      )}
+    </div>
+  );
+};
+
+export default NumericAnswerInput;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MathPreview } from '@/components/math/MathPreview';
+import { formatSelection, parseSelection, toggleSelection } from '@/lib/quiz/multi-select';
+import type { MultiSelectConfig, MultiSelectScoring } from '@/lib/quiz/types';
+
+interface OptionsEditorProps {
+  /** Select-all-that-apply questions, whose answer key is a JSON array of options. */
+  multiple: boolean;
+  options: string[];
+  correctAnswer: string;
+  config: MultiSelectConfig;
+  onOptionsChange: (options: string[], correctAnswer: string) => void;
+  onCorrectAnswerChange: (value: string) => void;
+  onConfigChange: (config: MultiSelectConfig) => void;
+}
+
+const MULTI_SELECT_SCORING: { value: MultiSelectScoring; label: string }[] = [
+  { value: 'all_or_nothing', label: 'All or nothing' },
+  { value: 'proportional', label: 'Proportional (per option)' },
+  { value: 'right_minus_wrong', label: 'Right minus wrong' }
+];
+
+export const OptionsEditor: React.FC<OptionsEditorProps> = ({
+  multiple,
+  options,
+  correctAnswer,
+  config,
+  onOptionsChange,
+  onCorrectAnswerChange,
+  onConfigChange
+}) => {
+  const updateOption = (index: number, value: string) => {
+    const previous = options[index];
+    const updated = options.map((option, i) => i === index ? value : option);
+
+    // Keep a renamed option selected in the multi-select answer key
+    onOptionsChange(updated, multiple
+      ? formatSelection(parseSelection(correctAnswer).map(o => o === previous ? value : o))
+      : correctAnswer);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>
+        Answer Options{multiple && ' (mark every correct option)'}
+      </Label>
+      {options.map((option, optionIndex) => {
+        const isCorrectOption = multiple
+          ? parseSelection(correctAnswer).includes(option)
+          : correctAnswer === option;
+
+        return (
+          <div key={optionIndex} className="flex items-center space-x-2">
+            <Input
+              value={option}
+              onChange={(e) => updateOption(optionIndex, e.target.value)}
+              placeholder={`Option ${optionIndex + 1}...`}
+            />
+            <Button
+              type="button"
+              variant={isCorrectOption ? "default" : "outline"}
+              size="sm"
+              onClick={() => onCorrectAnswerChange(multiple ? toggleSelection(correctAnswer, option) : option)}
+              disabled={!option.trim()}
+            >
+              Correct
+            </Button>
+          </div>
+        );
+      })}
+      <MathPreview text={options.map((option, optionIndex) => `${optionIndex + 1}. ${option}`).join('\n')} />
+
+      {multiple && (
+        <div className="pt-2 md:w-1/2">
+          <Label>Partial Credit</Label>
+          <Select
+            value={config.scoring || 'all_or_nothing'}
+            onValueChange={(value) => onConfigChange({ ...config, scoring: value as MultiSelectScoring })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MULTI_SELECT_SCORING.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OptionsEditor;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { MathPreview } from '@/components/math/MathPreview';
+import { formatSelection, parseSelection } from '@/lib/quiz/multi-select';
+import { moveItem } from '@/lib/quiz/ordering';
+
+interface OrderingEditorProps {
+  /** JSON array of the items in the correct order. */
+  correctAnswer: string;
+  onCorrectAnswerChange: (value: string) => void;
+}
+
+export const OrderingEditor: React.FC<OrderingEditorProps> = ({ correctAnswer, onCorrectAnswerChange }) => {
+  const items = parseSelection(correctAnswer);
+  const update = (updated: string[]) => onCorrectAnswerChange(formatSelection(updated));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Items in the Correct Order</Label>
+        <Button type="button" variant="outline" size="sm" onClick={() => update([...items, ''])}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Item
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Students see the items shuffled. Credit is the share of items they put in the right order relative to each other.
+      </p>
+
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <span className="text-sm text-muted-foreground w-6 shrink-0">{index + 1}.</span>
+          <Input
+            value={item}
+            onChange={(e) => update(items.map((it, i) => i === index ? e.target.value : it))}
+            placeholder={`Item ${index + 1}...`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => update(moveItem(items, index, index - 1))}
+            disabled={index === 0}
+            aria-label="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => update(moveItem(items, index, index + 1))}
+            disabled={index === items.length - 1}
+            aria-label="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => update(items.filter((_, i) => i !== index))}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <MathPreview text={items.map((item, index) => `${index + 1}. ${item}`).join('\n')} />
+    </div>
+  );
+};
+
+export default OrderingEditor;
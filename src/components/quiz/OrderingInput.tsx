@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, GripVertical } from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { formatSelection } from '@/lib/quiz/multi-select';
+import { answeredOrder, moveItem } from '@/lib/quiz/ordering';
+
+interface OrderingInputProps {
+  /** Items in the order they were presented. */
+  items: string[];
+  /** JSON array of the items in the student's order. */
+  value?: string;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+export const OrderingInput: React.FC<OrderingInputProps> = ({ items, value, disabled, onChange }) => {
+  const order = answeredOrder(value, items);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  const move = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= order.length || from === to) return;
+    onChange(formatSelection(moveItem(order, from, to)));
+    setAnnouncement(`Moved to position ${to + 1} of ${order.length}.`);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    if (!event.altKey || (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')) return;
+    event.preventDefault();
+    const to = event.key === 'ArrowUp' ? index - 1 : index + 1;
+    move(index, to);
+    // Keep focus on the moved item
+    const list = event.currentTarget.parentElement;
+    requestAnimationFrame(() => (list?.children[to] as HTMLElement | undefined)?.focus());
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Drag the items into the correct order, or focus an item and press Alt+Up or Alt+Down to move it.
+      </p>
+      <ol className="space-y-2" aria-label="Items to order">
+        {order.map((item, index) => (
+          <li
+            key={item}
+            tabIndex={disabled ? -1 : 0}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={e => e.preventDefault()}
+            onDrop={e => {
+              e.preventDefault();
+              if (dragIndex !== null) move(dragIndex, index);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            onKeyDown={e => handleKeyDown(e, index)}
+            aria-label={`${item}, position ${index + 1} of ${order.length}`}
+            className={`flex items-center gap-3 rounded-md border p-3 bg-background focus:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+              disabled ? 'opacity-70' : 'cursor-grab'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <GripVertical className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-sm font-medium text-muted-foreground w-6 shrink-0">{index + 1}.</span>
+            <MathText text={item} className="flex-1" />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              tabIndex={-1}
+              onClick={() => move(index, index - 1)}
+              disabled={disabled || index === 0}
+              aria-label="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              tabIndex={-1}
+              onClick={() => move(index, index + 1)}
+              disabled={disabled || index === order.length - 1}
+              aria-label="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      {!value && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(formatSelection(order))}
+          disabled={disabled}
+        >
+          Keep this order
+        </Button>
+      )}
+      <p className="sr-only" aria-live="polite">{announcement}</p>
+    </div>
+  );
+};
+
+export default OrderingInput;
@@ -0,0 +1,169 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, X } from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { MatchingInput } from '@/components/quiz/MatchingInput';
+import { MultiPartInput } from '@/components/quiz/MultiPartInput';
+import { MultiSelectInput } from '@/components/quiz/MultiSelectInput';
+import { NumericAnswerInput } from '@/components/quiz/NumericAnswerInput';
+import { OrderingInput } from '@/components/quiz/OrderingInput';
+import type { AnswerConfig, QuestionFeedback, QuestionParams, QuestionType } from '@/lib/quiz/types';
+
+export interface AnswerableQuestion {
+  id: string;
+  type: QuestionType;
+  /** In the order the student sees them. */
+  options?: string[];
+  answer_config?: AnswerConfig;
+}
+
+interface QuestionInputProps {
+  question: AnswerableQuestion;
+  params: QuestionParams;
+  points: number;
+  value?: string;
+  /** Once graded, multiple choice marks the right option and multi-part marks each part. */
+  feedback?: QuestionFeedback;
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+/** The answer input for a question of any type. */
+export const QuestionInput: React.FC<QuestionInputProps> = ({
+  question,
+  params,
+  points,
+  value,
+  feedback,
+  disabled,
+  onChange
+}) => {
+  const isCorrect = feedback?.is_correct ?? false;
+
+  switch (question.type) {
+    case 'numeric':
+    case 'calculated':
+      return (
+        <NumericAnswerInput
+          key={question.id}
+          value={value}
+          unit={question.answer_config?.unit}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      );
+
+    case 'multipart':
+      return (
+        <MultiPartInput
+          key={question.id}
+          parts={question.answer_config?.parts || []}
+          params={params}
+          points={points}
+          value={value}
+          feedback={feedback?.parts}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      );
+
+    case 'multi':
+      return (
+        <MultiSelectInput
+          options={question.options || []}
+          value={value}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      );
+
+    case 'matching':
+      return (
+        <MatchingInput
+          prompts={question.answer_config?.prompts || []}
+          options={question.options || []}
+          value={value}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      );
+
+    case 'ordering':
+      return (
+        <OrderingInput
+          key={question.id}
+          items={question.options || []}
+          value={value}
+          disabled={disabled}
+          onChange={onChange}
+        />
+      );
+
+    case 'short':
+      return (
+        <Input
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Type your answer..."
+          disabled={disabled}
+        />
+      );
+
+    default:
+      return (
+        <>
+          {question.options?.map((option, index) => (
+            <motion.div
+              key={index}
+              whileHover={{ scale: 1.01 }}
+              whileTap={{ scale: 0.99 }}
+            >
+              <Button
+                variant={value === option ? "default" : "outline"}
+                className={`w-full justify-start text-left h-auto p-4 ${
+                  feedback && value === option
+                    ? isCorrect
+                      ? 'border-accent bg-accent/10 text-accent'
+                      : 'border-destructive bg-destructive/10 text-destructive'
+                    : ''
+                }`}
+                onClick={() => onChange(option)}
+                disabled={disabled}
+              >
+                <div className="flex items-center justify-between w-full">
+                  <MathText text={option} />
+                  {feedback && value === option && (
+                    <motion.div
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      transition={{ duration: 0.2 }}
+                    >
+                      {isCorrect ? (
+                        <Check className="h-5 w-5" />
+                      ) : (
+                        <X className="h-5 w-5" />
+                      )}
+                    </motion.div>
+                  )}
+                  {feedback && option === feedback.correct_answer && value !== option && (
+                    <motion.div
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      transition={{ duration: 0.2 }}
+                      className="text-accent"
+                    >
+                      <Check className="h-5 w-5" />
+                    </motion.div>
+                  )}
+                </div>
+              </Button>
+            </motion.div>
+          ))}
+        </>
+      );
+  }
+};
+
+export default QuestionInput;
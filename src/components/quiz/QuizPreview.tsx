@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ArrowLeft, ArrowRight, Award, Check, Eye, RefreshCw, X } from 'lucide-react';
+import { MathContent } from '@/components/math/MathContent';
+import { MathText } from '@/components/math/MathText';
+import { HintPanel } from '@/components/quiz/HintPanel';
+import { QuestionInput } from '@/components/quiz/QuestionInput';
+import { QuizTimer } from '@/components/quiz/QuizTimer';
+import { advanceAdaptiveLayout, startAdaptiveLayout } from '@/lib/quiz/adaptive';
+import { fillTemplate, usesVariables } from '@/lib/quiz/calculated';
+import { applyOptionOrder, buildAttemptLayout } from '@/lib/quiz/draw';
+import { estimateAbility, itemDifficulty } from '@/lib/quiz/irt';
+import { gradeQuestion, paramsFor, summarizeResults } from '@/lib/quiz/scoring';
+import type { ScoredQuestion } from '@/lib/quiz/scoring';
+import type { AnswerConfig, AttemptLayout, Difficulty, QuestionFeedback, QuestionHint, QuizSettings } from '@/lib/quiz/types';
+
+/** A draft question as it would be saved; unsaved questions carry a placeholder id. */
+export interface PreviewQuestion extends ScoredQuestion {
+  question: string;
+  options: string[];
+  answer_config: AnswerConfig;
+  difficulty: Difficulty | null;
+  tags: string[];
+  hints: QuestionHint[];
+  irt_difficulty?: number | null;
+}
+
+interface QuizPreviewProps {
+  open: boolean;
+  onClose: () => void;
+  questions: PreviewQuestion[];
+  settings: QuizSettings;
+}
+
+/**
+ * Takes the draft quiz the way a student would, drawn and shuffled by the same rules, but
+ * grades it in the browser and saves nothing, so it never counts as an attempt.
+ */
+export const QuizPreview: React.FC<QuizPreviewProps> = ({ open, onClose, questions, settings }) => {
+  const [seed, setSeed] = useState('');
+  const [layout, setLayout] = useState<AttemptLayout | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState<Record<string, QuestionFeedback>>({});
+  const [showFeedback, setShowFeedback] = useState(false);
+  const [hintsUsed, setHintsUsed] = useState<Record<string, number>>({});
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [results, setResults] = useState<QuestionFeedback[] | null>(null);
+
+  const byId = useMemo(() => new Map(questions.map(q => [q.id, q])), [questions]);
+  const adaptiveItems = useMemo(() => questions.map(q => ({ id: q.id, difficulty: itemDifficulty(q) })), [questions]);
+
+  // A fresh attempt with a new seed, so each run draws and shuffles differently
+  const start = () => {
+    const attemptSeed = crypto.randomUUID();
+    const drawn = buildAttemptLayout(questions, settings, attemptSeed);
+    setSeed(attemptSeed);
+    setLayout(settings.adaptive ? startAdaptiveLayout(drawn, adaptiveItems, settings, attemptSeed) : drawn);
+    setCurrentIndex(0);
+    setAnswers({});
+    setFeedback({});
+    setShowFeedback(false);
+    setHintsUsed({});
+    setResults(null);
+    setDeadline(settings.time_limit_minutes ? Date.now() + settings.time_limit_minutes * 60 * 1000 : null);
+  };
+
+  useEffect(() => {
+    if (open) start();
+  }, [open]);
+
+  const asked = (layout?.question_ids ?? [])
+    .map(id => byId.get(id))
+    .filter((q): q is PreviewQuestion => !!q);
+  const grade = (quiz: PreviewQuestion) => gradeQuestion(quiz, answers[quiz.id], seed, hintsUsed[quiz.id]);
+
+  const adaptive = layout?.adaptive;
+  const currentQuiz = asked[currentIndex];
+  const plannedCount = adaptive && !adaptive.finished ? adaptive.max_questions : asked.length;
+  const hasNextQuestion = currentIndex < asked.length - 1 || (!!adaptive && !adaptive.finished);
+  const currentFeedback = showFeedback && currentQuiz ? feedback[currentQuiz.id] : undefined;
+  const isCorrect = currentFeedback?.is_correct ?? false;
+  const isPartial = !isCorrect && (currentFeedback?.credit ?? 0) > 0;
+  const questionPoints = Number(currentQuiz?.points ?? 1);
+  const params = currentQuiz ? paramsFor(currentQuiz, seed) ?? {} : {};
+  const questionText = (quiz: PreviewQuestion) =>
+    usesVariables(quiz.type) ? fillTemplate(quiz.question, paramsFor(quiz, seed) ?? {}) : quiz.question;
+
+  const handleNext = () => {
+    if (currentIndex < asked.length - 1) {
+      setCurrentIndex(prev => prev + 1);
+      setShowFeedback(false);
+    } else if (layout && adaptive && !adaptive.finished) {
+      // The same choice the grade-quiz function makes from the answers so far
+      const estimate = estimateAbility(asked.map(quiz => ({ score: grade(quiz).credit, difficulty: itemDifficulty(quiz) })));
+      const next = advanceAdaptiveLayout(layout, adaptiveItems, estimate, seed);
+      setLayout(next);
+      if (next.question_ids.length > asked.length) {
+        setCurrentIndex(prev => prev + 1);
+        setShowFeedback(false);
+      }
+    }
+  };
+
+  const handlePrevious = () => {
+    if (currentIndex > 0) {
+      setCurrentIndex(prev => prev - 1);
+      setShowFeedback(false);
+    }
+  };
+
+  const checkAnswer = () => {
+    setFeedback(prev => ({ ...prev, [currentQuiz.id]: grade(currentQuiz) }));
+    setShowFeedback(true);
+  };
+
+  const submit = () => {
+    setResults(asked.map(grade));
+    setDeadline(null);
+  };
+
+  const renderAttempt = () => {
+    if (!currentQuiz) {
+      return <p className="text-center text-muted-foreground py-12">No complete questions to preview.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {deadline !== null && (
+            <QuizTimer deadline={deadline} onExpire={submit} />
+          )}
+          {settings.mode === 'exam' && (
+            <Badge>Exam</Badge>
+          )}
+          <Badge variant="secondary">
+            {questionPoints} point{questionPoints === 1 ? '' : 's'}
+          </Badge>
+          <Badge variant="outline">
+            Question {currentIndex + 1} of {adaptive && !adaptive.finished ? `up to ${plannedCount}` : asked.length}
+          </Badge>
+        </div>
+
+        <Progress value={((currentIndex + 1) / plannedCount) * 100} className="w-full" />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl leading-relaxed">
+              <MathText text={questionText(currentQuiz)} />
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <QuestionInput
+              question={{ ...currentQuiz, options: applyOptionOrder(currentQuiz.options, layout?.option_orders[currentQuiz.id]) }}
+              params={params}
+              points={questionPoints}
+              value={answers[currentQuiz.id]}
+              feedback={currentFeedback}
+              disabled={showFeedback}
+              onChange={(answer) => setAnswers(prev => ({ ...prev, [currentQuiz.id]: answer }))}
+            />
+            <HintPanel
+              penalties={currentQuiz.hints.map(hint => Number(hint.penalty) || 0)}
+              revealed={currentQuiz.hints.slice(0, hintsUsed[currentQuiz.id] ?? 0)}
+              disabled={showFeedback}
+              onReveal={() => setHintsUsed(prev => ({ ...prev, [currentQuiz.id]: (prev[currentQuiz.id] ?? 0) + 1 }))}
+            />
+          </CardContent>
+        </Card>
+
+        {currentFeedback && currentQuiz.type !== 'mcq' && (
+          <Card className={isCorrect ? 'border-accent' : isPartial ? 'border-secondary' : 'border-destructive'}>
+            <CardContent className="pt-6 space-y-2">
+              <div className={`flex items-center font-medium ${isCorrect ? 'text-accent' : isPartial ? 'text-secondary' : 'text-destructive'}`}>
+                {isCorrect ? <Check className="h-5 w-5 mr-2" /> : <X className="h-5 w-5 mr-2" />}
+                {isCorrect
+                  ? 'Correct!'
+                  : isPartial
+                    ? `Partially correct: ${currentFeedback.points_awarded} of ${currentFeedback.points_possible} points`
+                    : 'Not quite.'}
+              </div>
+              {currentFeedback.feedback && (
+                <p className="text-sm text-muted-foreground">{currentFeedback.feedback}</p>
+              )}
+              {!isCorrect && !currentFeedback.parts && (
+                <p className="text-sm">
+                  Correct answer: <span className="font-medium">
+                    <MathText text={currentFeedback.correct_answer} />
+                  </span>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {currentFeedback?.explanation && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Explanation</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MathContent content={currentFeedback.explanation} paragraphClassName="mb-2 last:mb-0 text-muted-foreground" />
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Button variant="outline" onClick={handlePrevious} disabled={currentIndex === 0 || !!adaptive}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Previous
+          </Button>
+
+          <div className="flex space-x-3">
+            {settings.mode === 'practice' && !showFeedback && answers[currentQuiz.id] && (
+              <Button onClick={checkAnswer}>Check Answer</Button>
+            )}
+
+            {(showFeedback || settings.mode === 'exam') && (
+              hasNextQuestion ? (
+                <Button onClick={handleNext}>
+                  Next
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button onClick={submit} className="bg-accent hover:bg-accent/90">
+                  Submit Quiz
+                  <Award className="h-4 w-4 ml-2" />
+                </Button>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Admins see the full results whatever the mode; exam students wait for the release date
+  const renderResults = (graded: QuestionFeedback[]) => {
+    const summary = summarizeResults(graded);
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-col items-center text-center py-4">
+          <Award className={`h-12 w-12 mb-2 ${summary.score >= 80 ? 'text-accent' : summary.score >= 60 ? 'text-secondary' : 'text-muted-foreground'}`} />
+          <div className="text-3xl font-bold text-primary">{summary.score}%</div>
+          <p className="text-muted-foreground">
+            {summary.points_earned} of {summary.points_possible} points, {summary.correct_count} of {graded.length} correct
+          </p>
+        </div>
+
+        {graded.map((result, index) => {
+          const quiz = byId.get(result.quiz_id)!;
+          return (
+            <div key={result.quiz_id} className="p-3 border rounded-lg space-y-1 text-sm">
+              <div className="flex items-start justify-between gap-4">
+                <span className="font-medium">{index + 1}. <MathText text={questionText(quiz)} /></span>
+                <Badge variant={result.is_correct ? 'default' : result.credit > 0 ? 'secondary' : 'destructive'} className="shrink-0">
+                  {result.points_awarded} / {result.points_possible}
+                </Badge>
+              </div>
+              <p className="text-muted-foreground">
+                Correct answer: <MathText text={result.correct_answer} />
+              </p>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={start}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Try Again
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Eye className="h-5 w-5 mr-2" />
+            Quiz Preview
+          </DialogTitle>
+          <DialogDescription>
+            The unsaved draft as students will see it. Answers are graded here and nothing is recorded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {results ? renderResults(results) : renderAttempt()}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuizPreview;
@@ -0,0 +1,293 @@
+import React, { useId } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Trash2 } from 'lucide-react';
+import { SCORE_POLICIES } from '@/lib/quiz/attempts';
+import { DIFFICULTIES } from '@/lib/quiz/draw';
+import { QUIZ_MODES } from '@/lib/quiz/modes';
+import type { Difficulty, DrawRule, QuizMode, QuizSettings, ScorePolicy } from '@/lib/quiz/types';
+
+interface QuizSettingsEditorProps {
+  settings: QuizSettings;
+  /** Tags used by the module's questions, offered as suggestions for draw rules. */
+  tags?: string[];
+  onChange: (settings: QuizSettings) => void;
+}
+
+const ANY = 'any';
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+// Empty inputs clear optional whole-number limits
+const toLimit = (value: string) => value.trim() === '' ? null : Math.max(1, Math.round(Number(value)));
+
+export const QuizSettingsEditor: React.FC<QuizSettingsEditorProps> = ({ settings, tags = [], onChange }) => {
+  const shuffleQuestionsId = useId();
+  const shuffleOptionsId = useId();
+  const adaptiveId = useId();
+  const tagListId = useId();
+
+  const updateSettings = (updates: Partial<QuizSettings>) => {
+    onChange({ ...settings, ...updates });
+  };
+
+  const updateRule = (index: number, updates: Partial<DrawRule>) => {
+    updateSettings({
+      draw_rules: settings.draw_rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule)
+    });
+  };
+
+  const addRule = () => {
+    updateSettings({ draw_rules: [...settings.draw_rules, { count: 5 }] });
+  };
+
+  const removeRule = (index: number) => {
+    updateSettings({ draw_rules: settings.draw_rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label>Mode</Label>
+          <Select
+            value={settings.mode}
+            onValueChange={(value) => updateSettings({ mode: value as QuizMode })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUIZ_MODES.map(mode => (
+                <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            {settings.mode === 'exam'
+              ? 'No feedback while answering. Attempts count toward grades.'
+              : 'Students can check each answer as they go and retry freely. Attempts don\'t count toward grades or attempt limits.'}
+          </p>
+        </div>
+
+        {settings.mode === 'exam' && (
+          <div>
+            <Label>Release Results On (Optional)</Label>
+            <Input
+              type="datetime-local"
+              value={toLocalInput(settings.feedback_release_at)}
+              onChange={(e) => updateSettings({
+                feedback_release_at: e.target.value ? new Date(e.target.value).toISOString() : null
+              })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Scores and answers stay hidden until then. Leave empty to show them on submission.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <Label>Maximum Attempts</Label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.max_attempts ?? ''}
+            onChange={(e) => updateSettings({ max_attempts: toLimit(e.target.value) })}
+            placeholder="Unlimited"
+          />
+        </div>
+
+        <div>
+          <Label>Wait Between Attempts (minutes)</Label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.cooldown_minutes ?? ''}
+            onChange={(e) => updateSettings({ cooldown_minutes: toLimit(e.target.value) })}
+            placeholder="No wait"
+          />
+        </div>
+
+        <div>
+          <Label>Attempt That Counts</Label>
+          <Select
+            value={settings.score_policy}
+            onValueChange={(value) => updateSettings({ score_policy: value as ScorePolicy })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCORE_POLICIES.map(policy => (
+                <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            {SCORE_POLICIES.find(policy => policy.value === settings.score_policy)?.description}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label>Time Limit (minutes)</Label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.time_limit_minutes ?? ''}
+            onChange={(e) => updateSettings({ time_limit_minutes: toLimit(e.target.value) })}
+            placeholder="No limit"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            The quiz is submitted automatically when time runs out. Extended time is set per student in Analytics.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-3">
+            <Switch
+              id={shuffleQuestionsId}
+              checked={settings.shuffle_questions}
+              onCheckedChange={(checked) => updateSettings({ shuffle_questions: checked })}
+            />
+            <Label htmlFor={shuffleQuestionsId}>Shuffle question order</Label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Switch
+              id={shuffleOptionsId}
+              checked={settings.shuffle_options}
+              onCheckedChange={(checked) => updateSettings({ shuffle_options: checked })}
+            />
+            <Label htmlFor={shuffleOptionsId}>Shuffle multiple choice options</Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center space-x-3">
+          <Switch
+            id={adaptiveId}
+            checked={settings.adaptive}
+            onCheckedChange={(checked) => updateSettings({ adaptive: checked })}
+          />
+          <Label htmlFor={adaptiveId}>Adaptive question selection</Label>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {settings.adaptive
+            ? 'Each question is chosen to match how well the student has answered so far, from the questions drawn below. The quiz ends once their ability is estimated precisely enough.'
+            : 'Every student answers the drawn questions in the same way.'}
+        </p>
+
+        {settings.adaptive && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label>Target Precision (standard error)</Label>
+              <Input
+                type="number"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={settings.adaptive_target_se}
+                onChange={(e) => updateSettings({ adaptive_target_se: Math.min(1, Math.max(0.1, Number(e.target.value) || 0.5)) })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Lower is more precise but asks more questions. 0.5 suits most quizzes.
+              </p>
+            </div>
+
+            <div>
+              <Label>Maximum Questions</Label>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.adaptive_max_questions ?? ''}
+                onChange={(e) => updateSettings({ adaptive_max_questions: toLimit(e.target.value) })}
+                placeholder="All drawn questions"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Question Draws</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addRule}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Draw Rule
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {settings.draw_rules.length === 0
+            ? 'Every student answers every question. Add a rule to draw a random subset per attempt instead.'
+            : 'Each attempt draws questions by these rules in order, never repeating a question.'}
+        </p>
+
+        <datalist id={tagListId}>
+          {tags.map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+
+        {settings.draw_rules.map((rule, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+            <div>
+              <Label className="text-xs">Questions</Label>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={rule.count}
+                onChange={(e) => updateRule(index, { count: Math.max(1, Math.round(Number(e.target.value) || 1)) })}
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Difficulty</Label>
+              <Select
+                value={rule.difficulty || ANY}
+                onValueChange={(value) => updateRule(index, { difficulty: value === ANY ? undefined : value as Difficulty })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any difficulty</SelectItem>
+                  {DIFFICULTIES.map(difficulty => (
+                    <SelectItem key={difficulty.value} value={difficulty.value}>{difficulty.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Tag</Label>
+              <Input
+                list={tagListId}
+                value={rule.tag || ''}
+                onChange={(e) => updateRule(index, { tag: e.target.value.trim() || undefined })}
+                placeholder="Any tag"
+              />
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeRule(index)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default QuizSettingsEditor;
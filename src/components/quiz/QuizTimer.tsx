@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Clock } from 'lucide-react';
+
+interface QuizTimerProps {
+  /** Deadline in local clock milliseconds. */
+  deadline: number;
+  onExpire: () => void;
+}
+
+const WARNING_MS = 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+export const QuizTimer: React.FC<QuizTimerProps> = ({ deadline, onExpire }) => {
+  const [remaining, setRemaining] = useState(() => deadline - Date.now());
+  // Always call the latest handler so it sees the current answers
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    let expired = false;
+
+    const tick = () => {
+      const left = deadline - Date.now();
+      setRemaining(left);
+      if (left <= 0 && !expired) {
+        expired = true;
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return (
+    <Badge
+      variant={remaining <= WARNING_MS ? 'destructive' : 'outline'}
+      className="font-mono text-sm"
+      role="timer"
+      aria-label={`Time remaining ${formatRemaining(remaining)}`}
+    >
+      <Clock className="h-3 w-3 mr-1" />
+      {formatRemaining(remaining)}
+    </Badge>
+  );
+};
+
+export default QuizTimer;
@@ -0,0 +1,188 @@
+import React, { useEffect, useId, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { History } from 'lucide-react';
+
+interface RegradeDialogProps {
+  moduleId: string;
+  /** The saved question to regrade; the dialog is open while one is set. */
+  quizId: string | null;
+  onClose: () => void;
+}
+
+interface RegradeCounts {
+  version: number;
+  responses_checked: number;
+  responses_changed: number;
+  sessions_changed: number;
+}
+
+interface RegradeRecord {
+  id: string;
+  version: number;
+  reason: string | null;
+  responses_checked: number;
+  responses_changed: number;
+  sessions_changed: number;
+  created_at: string;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Regrades a question's earlier responses against its saved answer key, with the regrade history. */
+export const RegradeDialog: React.FC<RegradeDialogProps> = ({ moduleId, quizId, onClose }) => {
+  const reasonId = useId();
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<RegradeCounts | null>(null);
+  const [history, setHistory] = useState<RegradeRecord[]>([]);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [regrading, setRegrading] = useState(false);
+
+  useEffect(() => {
+    if (!quizId) return;
+
+    setPreview(null);
+    setReason('');
+
+    const fetchRegrade = async () => {
+      setLoading(true);
+      try {
+        const [{ data, error }, { data: historyData, error: historyError }] = await Promise.all([
+          supabase.functions.invoke('grade-quiz', {
+            body: { action: 'regrade', module_id: moduleId, quiz_id: quizId, preview: true }
+          }),
+          supabase
+            .from('quiz_regrades')
+            .select('id, version, reason, responses_checked, responses_changed, sessions_changed, created_at')
+            .eq('quiz_id', quizId)
+            .order('created_at', { ascending: false })
+        ]);
+
+        if (error) throw error;
+        if (historyError) throw historyError;
+
+        setPreview(data);
+        setHistory(historyData || []);
+      } catch (error) {
+        console.error('Error previewing regrade:', error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to check which responses a regrade would change"
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRegrade();
+  }, [quizId, moduleId]);
+
+  const regrade = async () => {
+    setRegrading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: { action: 'regrade', module_id: moduleId, quiz_id: quizId, reason }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Question Regraded",
+        description: data.sessions_changed > 0
+          ? `${plural(data.responses_changed, 'response')} changed across ${plural(data.sessions_changed, 'attempt')}. The students have been notified.`
+          : 'No grades changed.'
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error regrading question:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to regrade question"
+      });
+    } finally {
+      setRegrading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!quizId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Regrade Question</DialogTitle>
+          <DialogDescription>
+            Regrades responses to earlier versions of this question against its saved answer key.
+            Save the module first so the corrected key is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading || !preview ? (
+            <div className="h-12 bg-muted rounded animate-pulse"></div>
+          ) : (
+            <p className="text-sm">
+              Version {preview.version}:{' '}
+              {preview.responses_checked === 0
+                ? 'every response has already been graded against this version.'
+                : `${plural(preview.responses_changed, 'response')} of ${preview.responses_checked} would change, across ${plural(preview.sessions_changed, 'attempt')}.`}
+            </p>
+          )}
+
+          <div>
+            <Label htmlFor={reasonId}>Reason</Label>
+            <Textarea
+              id={reasonId}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. The answer key had the wrong sign"
+              rows={2}
+            />
+          </div>
+
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center">
+                <History className="h-4 w-4 mr-2" />
+                Earlier Regrades
+              </Label>
+              {history.map(record => (
+                <div key={record.id} className="text-sm p-2 border rounded">
+                  <div className="flex justify-between gap-4">
+                    <span className="font-medium">Version {record.version}</span>
+                    <span className="text-muted-foreground">{new Date(record.created_at).toLocaleDateString()}</span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {plural(record.responses_changed, 'response')} of {record.responses_checked} changed
+                    {record.reason && <> — {record.reason}</>}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={regrade} disabled={loading || regrading || !preview || preview.responses_checked === 0}>
+            {regrading ? 'Regrading...' : 'Regrade'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegradeDialog;
@@ -0,0 +1,92 @@
+import React, { useId } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import type { ShortAnswerConfig } from '@/lib/quiz/types';
+
+interface ShortAnswerEditorProps {
+  correctAnswer: string;
+  config: ShortAnswerConfig;
+  onCorrectAnswerChange: (value: string) => void;
+  onConfigChange: (config: ShortAnswerConfig) => void;
+}
+
+const toLines = (values?: string[]) => (values || []).join('\n');
+const fromLines = (value: string) => value.split('\n');
+
+export const ShortAnswerEditor: React.FC<ShortAnswerEditorProps> = ({
+  correctAnswer,
+  config,
+  onCorrectAnswerChange,
+  onConfigChange
+}) => {
+  const caseSensitiveId = useId();
+
+  const updateConfig = (updates: Partial<ShortAnswerConfig>) => {
+    onConfigChange({ ...config, ...updates });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Correct Answer</Label>
+        <Input
+          value={correctAnswer}
+          onChange={(e) => onCorrectAnswerChange(e.target.value)}
+          placeholder="e.g. Nusselt number"
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label>Accepted Alternatives (one per line)</Label>
+          <Textarea
+            value={toLines(config.accepted_answers)}
+            onChange={(e) => updateConfig({ accepted_answers: fromLines(e.target.value) })}
+            placeholder={'Nu\nNusselt no.'}
+            rows={3}
+          />
+        </div>
+
+        <div>
+          <Label>Regex Patterns (Optional, one per line)</Label>
+          <Textarea
+            value={toLines(config.patterns)}
+            onChange={(e) => updateConfig({ patterns: fromLines(e.target.value) })}
+            placeholder={'^nusselt\\s*(number|no\\.?)?$'}
+            rows={3}
+            className="font-mono text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="flex items-center space-x-3">
+          <Switch
+            id={caseSensitiveId}
+            checked={!!config.case_sensitive}
+            onCheckedChange={(checked) => updateConfig({ case_sensitive: checked })}
+          />
+          <Label htmlFor={caseSensitiveId}>Case sensitive</Label>
+        </div>
+
+        <div>
+          <Label>Fuzzy Match Threshold (%)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={config.fuzzy_threshold != null ? Math.round(config.fuzzy_threshold * 100) : ''}
+            onChange={(e) => updateConfig({
+              fuzzy_threshold: e.target.value.trim() === '' ? undefined : Number(e.target.value) / 100
+            })}
+            placeholder="Off"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortAnswerEditor;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2 } from 'lucide-react';
+import type { QuestionVariable } from '@/lib/quiz/types';
+
+interface VariablesEditorProps {
+  variables: QuestionVariable[];
+  onChange: (variables: QuestionVariable[]) => void;
+}
+
+const parseNumber = (value: string) => value.trim() === '' ? NaN : Number(value);
+const displayNumber = (value: number | undefined) => Number.isFinite(value) ? value : '';
+
+export const VariablesEditor: React.FC<VariablesEditorProps> = ({ variables, onChange }) => {
+  const updateVariable = (index: number, updates: Partial<QuestionVariable>) => {
+    onChange(variables.map((variable, i) => i === index ? { ...variable, ...updates } : variable));
+  };
+
+  const addVariable = () => {
+    onChange([...variables, { name: '', min: 1, max: 10, decimals: 2 }]);
+  };
+
+  const removeVariable = (index: number) => {
+    onChange(variables.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Variables</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addVariable}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Variable
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Each student gets values drawn from these ranges. Write {'{name}'} in the question to show a value.
+      </p>
+
+      {variables.map((variable, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-end">
+          <div>
+            <Label className="text-xs">Name</Label>
+            <Input
+              value={variable.name}
+              onChange={(e) => updateVariable(index, { name: e.target.value.trim() })}
+              placeholder="e.g. v"
+              className="font-mono"
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Min</Label>
+            <Input
+              type="number"
+              step="any"
+              value={displayNumber(variable.min)}
+              onChange={(e) => updateVariable(index, { min: parseNumber(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Max</Label>
+            <Input
+              type="number"
+              step="any"
+              value={displayNumber(variable.max)}
+              onChange={(e) => updateVariable(index, { max: parseNumber(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Decimals</Label>
+            <Input
+              type="number"
+              min={0}
+              max={10}
+              step={1}
+              value={variable.decimals ?? ''}
+              onChange={(e) => updateVariable(index, {
+                decimals: e.target.value.trim() === '' ? undefined : Number(e.target.value)
+              })}
+              placeholder="2"
+            />
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => removeVariable(index)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VariablesEditor;
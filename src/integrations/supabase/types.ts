@@ -77,6 +77,37 @@ export type Database = {
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -174,36 +205,454 @@ export type Database = {
           },
         ]
       }
+      quiz_regrade_changes: {
+        Row: {
+          id: string
+          new_credit: number
+          new_points: number
+          previous_credit: number
+          previous_points: number
+          previous_version: number | null
+          regrade_id: string
+          response_id: string | null
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          new_credit: number
+          new_points: number
+          previous_credit: number
+          previous_points: number
+          previous_version?: number | null
+          regrade_id: string
+          response_id?: string | null
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          new_credit?: number
+          new_points?: number
+          previous_credit?: number
+          previous_points?: number
+          previous_version?: number | null
+          regrade_id?: string
+          response_id?: string | null
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_regrade_changes_regrade_id_fkey"
+            columns: ["regrade_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_regrades"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_regrade_changes_response_id_fkey"
+            columns: ["response_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_responses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_regrade_changes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_regrades: {
+        Row: {
+          created_at: string
+          id: string
+          module_id: string
+          quiz_id: string
+          reason: string | null
+          regraded_by: string | null
+          responses_changed: number
+          responses_checked: number
+          sessions_changed: number
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          module_id: string
+          quiz_id: string
+          reason?: string | null
+          regraded_by?: string | null
+          responses_changed?: number
+          responses_checked?: number
+          sessions_changed?: number
+          version: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          module_id?: string
+          quiz_id?: string
+          reason?: string | null
+          regraded_by?: string | null
+          responses_changed?: number
+          responses_checked?: number
+          sessions_changed?: number
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_regrades_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_regrades_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_responses: {
+        Row: {
+          answer: string
+          created_at: string
+          credit: number
+          hint_penalty: number
+          hints_used: number
+          id: string
+          is_correct: boolean
+          params: Json | null
+          part_results: Json | null
+          points_awarded: number
+          points_possible: number
+          position: number
+          quiz_id: string | null
+          quiz_version: number | null
+          session_id: string
+          time_spent_ms: number | null
+        }
+        Insert: {
+          answer?: string
+          created_at?: string
+          credit?: number
+          hint_penalty?: number
+          hints_used?: number
+          id?: string
+          is_correct?: boolean
+          params?: Json | null
+          part_results?: Json | null
+          points_awarded?: number
+          points_possible?: number
+          position: number
+          quiz_id?: string | null
+          quiz_version?: number | null
+          session_id: string
+          time_spent_ms?: number | null
+        }
+        Update: {
+          answer?: string
+          created_at?: string
+          credit?: number
+          hint_penalty?: number
+          hints_used?: number
+          id?: string
+          is_correct?: boolean
+          params?: Json | null
+          part_results?: Json | null
+          points_awarded?: number
+          points_possible?: number
+          position?: number
+          quiz_id?: string | null
+          quiz_version?: number | null
+          session_id?: string
+          time_spent_ms?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_responses_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_responses_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_revisions: {
+        Row: {
+          answer_config: Json | null
+          correct_answer: string
+          created_at: string
+          created_by: string | null
+          explanation: string | null
+          hints: Json
+          id: string
+          options: Json | null
+          points: number
+          question: string
+          quiz_id: string
+          type: Database["public"]["Enums"]["question_type"]
+          version: number
+        }
+        Insert: {
+          answer_config?: Json | null
+          correct_answer: string
+          created_at?: string
+          created_by?: string | null
+          explanation?: string | null
+          hints?: Json
+          id?: string
+          options?: Json | null
+          points: number
+          question: string
+          quiz_id: string
+          type: Database["public"]["Enums"]["question_type"]
+          version: number
+        }
+        Update: {
+          answer_config?: Json | null
+          correct_answer?: string
+          created_at?: string
+          created_by?: string | null
+          explanation?: string | null
+          hints?: Json
+          id?: string
+          options?: Json | null
+          points?: number
+          question?: string
+          quiz_id?: string
+          type?: Database["public"]["Enums"]["question_type"]
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_revisions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_sessions: {
+        Row: {
+          ability: number | null
+          ability_se: number | null
+          correct_count: number
+          draft: Json | null
+          draft_saved_at: string | null
+          expires_at: string | null
+          feedback_release_at: string | null
+          hints_used: Json
+          id: string
+          layout: Json | null
+          mode: Database["public"]["Enums"]["quiz_mode"]
+          module_id: string
+          points_earned: number
+          points_possible: number
+          question_count: number
+          score: number
+          seed: string | null
+          started_at: string
+          status: Database["public"]["Enums"]["quiz_session_status"]
+          submitted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          ability?: number | null
+          ability_se?: number | null
+          correct_count?: number
+          draft?: Json | null
+          draft_saved_at?: string | null
+          expires_at?: string | null
+          feedback_release_at?: string | null
+          hints_used?: Json
+          id?: string
+          layout?: Json | null
+          mode?: Database["public"]["Enums"]["quiz_mode"]
+          module_id: string
+          points_earned?: number
+          points_possible?: number
+          question_count?: number
+          score?: number
+          seed?: string | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["quiz_session_status"]
+          submitted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          ability?: number | null
+          ability_se?: number | null
+          correct_count?: number
+          draft?: Json | null
+          draft_saved_at?: string | null
+          expires_at?: string | null
+          feedback_release_at?: string | null
+          hints_used?: Json
+          id?: string
+          layout?: Json | null
+          mode?: Database["public"]["Enums"]["quiz_mode"]
+          module_id?: string
+          points_earned?: number
+          points_possible?: number
+          question_count?: number
+          score?: number
+          seed?: string | null
+          started_at?: string
+          status?: Database["public"]["Enums"]["quiz_session_status"]
+          submitted_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_sessions_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_settings: {
+        Row: {
+          adaptive: boolean
+          adaptive_max_questions: number | null
+          adaptive_target_se: number
+          cooldown_minutes: number | null
+          created_at: string
+          draw_rules: Json
+          feedback_release_at: string | null
+          max_attempts: number | null
+          mode: Database["public"]["Enums"]["quiz_mode"]
+          module_id: string
+          score_policy: Database["public"]["Enums"]["score_policy"]
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          time_limit_minutes: number | null
+          updated_at: string
+        }
+        Insert: {
+          adaptive?: boolean
+          adaptive_max_questions?: number | null
+          adaptive_target_se?: number
+          cooldown_minutes?: number | null
+          created_at?: string
+          draw_rules?: Json
+          feedback_release_at?: string | null
+          max_attempts?: number | null
+          mode?: Database["public"]["Enums"]["quiz_mode"]
+          module_id: string
+          score_policy?: Database["public"]["Enums"]["score_policy"]
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          time_limit_minutes?: number | null
+          updated_at?: string
+        }
+        Update: {
+          adaptive?: boolean
+          adaptive_max_questions?: number | null
+          adaptive_target_se?: number
+          cooldown_minutes?: number | null
+          created_at?: string
+          draw_rules?: Json
+          feedback_release_at?: string | null
+          max_attempts?: number | null
+          mode?: Database["public"]["Enums"]["quiz_mode"]
+          module_id?: string
+          score_policy?: Database["public"]["Enums"]["score_policy"]
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          time_limit_minutes?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_settings_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: true
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quizzes: {
         Row: {
+          answer_config: Json | null
           correct_answer: string
           created_at: string
+          deleted_at: string | null
+          difficulty: Database["public"]["Enums"]["question_difficulty"] | null
           explanation: string | null
+          hints: Json
           id: string
+          irt_calibrated_at: string | null
+          irt_difficulty: number | null
+          irt_response_count: number
+          irt_standard_error: number | null
           module_id: string
           options: Json | null
+          points: number
           question: string
+          tags: string[]
           type: Database["public"]["Enums"]["question_type"]
+          version: number
         }
         Insert: {
+          answer_config?: Json | null
           correct_answer: string
           created_at?: string
+          deleted_at?: string | null
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
           explanation?: string | null
+          hints?: Json
           id?: string
+          irt_calibrated_at?: string | null
+          irt_difficulty?: number | null
+          irt_response_count?: number
+          irt_standard_error?: number | null
           module_id: string
           options?: Json | null
+          points?: number
           question: string
+          tags?: string[]
           type: Database["public"]["Enums"]["question_type"]
+          version?: number
         }
         Update: {
+          answer_config?: Json | null
           correct_answer?: string
           created_at?: string
+          deleted_at?: string | null
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
           explanation?: string | null
+          hints?: Json
           id?: string
+          irt_calibrated_at?: string | null
+          irt_difficulty?: number | null
+          irt_response_count?: number
+          irt_standard_error?: number | null
           module_id?: string
           options?: Json | null
+          points?: number
           question?: string
+          tags?: string[]
           type?: Database["public"]["Enums"]["question_type"]
+          version?: number
         }
         Relationships: [
           {
@@ -215,18 +664,172 @@ export type Database = {
           },
         ]
       }
+      review_items: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          hidden_until: string | null
+          id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          module_id: string
+          quiz_id: string
+          repetitions: number
+          seed: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          hidden_until?: string | null
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          module_id: string
+          quiz_id: string
+          repetitions?: number
+          seed?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          hidden_until?: string | null
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          module_id?: string
+          quiz_id?: string
+          repetitions?: number
+          seed?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_items_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_accommodations: {
+        Row: {
+          created_at: string
+          notes: string | null
+          time_multiplier: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          notes?: string | null
+          time_multiplier?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          notes?: string | null
+          time_multiplier?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      quiz_attempt_results: {
+        Row: {
+          correct_count: number | null
+          feedback_release_at: string | null
+          id: string | null
+          mode: Database["public"]["Enums"]["quiz_mode"] | null
+          module_id: string | null
+          points_earned: number | null
+          points_possible: number | null
+          question_count: number | null
+          score: number | null
+          submitted_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_sessions_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_questions: {
+        Row: {
+          answer_config: Json | null
+          created_at: string | null
+          deleted_at: string | null
+          difficulty: Database["public"]["Enums"]["question_difficulty"] | null
+          hint_penalties: Json | null
+          id: string | null
+          module_id: string | null
+          options: Json | null
+          points: number | null
+          question: string | null
+          tags: string[] | null
+          type: Database["public"]["Enums"]["question_type"] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
       is_admin: {
         Args: { user_uuid: string }
         Returns: boolean
       }
+      quiz_public_config: {
+        Args: { quiz: Database["public"]["Tables"]["quizzes"]["Row"] }
+        Returns: Json
+      }
     }
     Enums: {
-      question_type: "mcq" | "numeric" | "short"
+      question_difficulty: "easy" | "medium" | "hard"
+      question_type:
+        | "mcq"
+        | "numeric"
+        | "short"
+        | "calculated"
+        | "multi"
+        | "multipart"
+        | "matching"
+        | "ordering"
+      quiz_mode: "practice" | "exam"
+      quiz_session_status: "in_progress" | "submitted"
+      score_policy: "best" | "latest" | "average"
       user_role: "student" | "admin"
     }
     CompositeTypes: {
@@ -355,7 +958,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      question_type: ["mcq", "numeric", "short"],
+      question_difficulty: ["easy", "medium", "hard"],
+      question_type: [
+        "mcq",
+        "numeric",
+        "short",
+        "calculated",
+        "multi",
+        "multipart",
+        "matching",
+        "ordering",
+      ],
+      quiz_mode: ["practice", "exam"],
+      quiz_session_status: ["in_progress", "submitted"],
+      score_policy: ["best", "latest", "average"],
       user_role: ["student", "admin"],
     },
   },
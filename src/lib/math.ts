@@ -0,0 +1,75 @@
+export interface MathSegment {
+  type: 'text' | 'inline' | 'display';
+  value: string;
+}
+
+// Display math: $$...$$ or \[...\]. Inline math: \(...\) or $...$ where the opening $
+// is followed and the closing $ preceded by a non-space, and the closing $ isn't
+// followed by a digit, so prices like "$5 and $10" stay text. \$ is a literal dollar.
+const MATH_PATTERN =
+  /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(?<!\\)\$(?=\S)((?:\\\$|[^$\n])+?)(?<=\S)(?<!\\)\$(?!\d)/g;
+
+const unescapeDollars = (text: string) => text.replace(/\\\$/g, '$');
+
+/** Splits text into plain text and TeX math segments, in order. */
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const [whole, dollarDisplay, bracketDisplay, parenInline, dollarInline] = match;
+    const index = match.index ?? 0;
+
+    if (index > last) segments.push({ type: 'text', value: unescapeDollars(text.slice(last, index)) });
+    segments.push(dollarDisplay !== undefined || bracketDisplay !== undefined
+      ? { type: 'display', value: (dollarDisplay ?? bracketDisplay).trim() }
+      : { type: 'inline', value: (parenInline ?? dollarInline).trim() });
+    last = index + whole.length;
+  }
+
+  if (last < text.length) segments.push({ type: 'text', value: unescapeDollars(text.slice(last)) });
+  return segments;
+};
+
+export const hasMath = (text: string | null | undefined) =>
+  !!text && splitMath(text).some(segment => segment.type !== 'text');
+
+/**
+ * Splits content into paragraphs, one per line as plain content always has been.
+ * Display math spans lines and stands as a paragraph of its own.
+ */
+export const mathParagraphs = (text: string): MathSegment[][] => {
+  const paragraphs: MathSegment[][] = [];
+  let current: MathSegment[] = [];
+  let afterDisplay = false;
+
+  for (const segment of splitMath(text)) {
+    if (segment.type === 'display') {
+      if (current.length > 0) paragraphs.push(current);
+      paragraphs.push([segment]);
+      current = [];
+      afterDisplay = true;
+      continue;
+    }
+
+    if (segment.type === 'inline') {
+      current.push(segment);
+      afterDisplay = false;
+      continue;
+    }
+
+    // The line break after display math only ends the display paragraph
+    const lines = (afterDisplay ? segment.value.replace(/^\r?\n/, '') : segment.value).split('\n');
+    afterDisplay = false;
+    lines.forEach((line, index) => {
+      if (index > 0) {
+        paragraphs.push(current);
+        current = [];
+      }
+      if (line) current.push({ type: 'text', value: line });
+    });
+  }
+
+  if (current.length > 0 || paragraphs.length === 0) paragraphs.push(current);
+  return paragraphs;
+};
@@ -0,0 +1,98 @@
+import { createRandom } from './random.ts';
+import type { AbilityEstimate } from './irt.ts';
+import type { AttemptLayout, QuizSettings } from './types.ts';
+
+/** Adaptive quizzes always ask at least this many questions, however precise the estimate. */
+export const MIN_ADAPTIVE_QUESTIONS = 3;
+
+// Picking among a few near-equal items keeps students from all seeing the same sequence
+const CANDIDATES = 3;
+
+export interface AdaptiveItem {
+  id: string;
+  difficulty: number;
+}
+
+/** Whether an adaptive attempt has asked enough, given the estimate after `asked` questions. */
+export const adaptiveFinished = (
+  estimate: AbilityEstimate,
+  asked: number,
+  remaining: number,
+  settings: { max_questions: number; target_standard_error: number }
+) =>
+  remaining === 0 ||
+  asked >= settings.max_questions ||
+  (asked >= MIN_ADAPTIVE_QUESTIONS && estimate.standard_error <= settings.target_standard_error);
+
+/**
+ * The next question for a student of the given ability: one of the unasked items whose
+ * difficulty is closest to it, where a Rasch item is most informative. The same seed and
+ * position always pick the same item.
+ */
+export const nextAdaptiveItem = (
+  items: AdaptiveItem[],
+  asked: string[],
+  ability: number,
+  seed: string
+): string | undefined => {
+  const candidates = items
+    .filter(item => !asked.includes(item.id))
+    .sort((a, b) => Math.abs(a.difficulty - ability) - Math.abs(b.difficulty - ability))
+    .slice(0, CANDIDATES);
+  if (candidates.length === 0) return undefined;
+
+  const random = createRandom(`${seed}:adaptive:${asked.length}`);
+  return candidates[Math.floor(random() * candidates.length)].id;
+};
+
+/**
+ * Turns a drawn layout into an adaptive one: every drawn question goes into the pool and
+ * the attempt starts with one suited to an average student.
+ */
+export const startAdaptiveLayout = (
+  layout: AttemptLayout,
+  items: AdaptiveItem[],
+  settings: Pick<QuizSettings, 'adaptive_target_se' | 'adaptive_max_questions'>,
+  seed: string
+): AttemptLayout => {
+  const pool = layout.question_ids;
+  const first = nextAdaptiveItem(items.filter(item => pool.includes(item.id)), [], 0, seed);
+  return {
+    ...layout,
+    question_ids: first ? [first] : [],
+    adaptive: {
+      pool,
+      max_questions: Math.min(settings.adaptive_max_questions ?? pool.length, pool.length),
+      target_standard_error: Number(settings.adaptive_target_se),
+      finished: !first,
+      ability: 0,
+      standard_error: 1
+    }
+  };
+};
+
+/** Records the estimate from the questions asked so far and either adds the next question or stops. */
+export const advanceAdaptiveLayout = (
+  layout: AttemptLayout,
+  items: AdaptiveItem[],
+  estimate: AbilityEstimate,
+  seed: string
+): AttemptLayout => {
+  const state = layout.adaptive!;
+  const asked = layout.question_ids;
+  const pool = items.filter(item => state.pool.includes(item.id));
+  const remaining = pool.filter(item => !asked.includes(item.id)).length;
+  const finished = adaptiveFinished(estimate, asked.length, remaining, state);
+  const next = finished ? undefined : nextAdaptiveItem(pool, asked, estimate.ability, seed);
+
+  return {
+    ...layout,
+    question_ids: next ? [...asked, next] : asked,
+    adaptive: {
+      ...state,
+      finished: !next,
+      ability: estimate.ability,
+      standard_error: estimate.standard_error
+    }
+  };
+};
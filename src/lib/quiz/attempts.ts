@@ -0,0 +1,93 @@
+import type { AttemptAllowance, QuizMode, QuizSettings, ScorePolicy } from './types.ts';
+
+export const SCORE_POLICIES: { value: ScorePolicy; label: string; description: string }[] = [
+  { value: 'best', label: 'Best attempt', description: 'The highest score counts.' },
+  { value: 'latest', label: 'Latest attempt', description: 'The most recent score counts, even if it is lower.' },
+  { value: 'average', label: 'Average of attempts', description: 'Every attempt counts equally.' }
+];
+
+export const DEFAULT_SCORE_POLICY: ScorePolicy = 'average';
+
+interface ScoredAttempt {
+  module_id: string;
+  score: number;
+  submitted_at: string;
+  user_id?: string;
+  mode?: QuizMode;
+}
+
+/**
+ * Whether another attempt can start, given when the earlier ones were submitted.
+ * An attempt already in progress doesn't count against the limit; it is resumed instead.
+ */
+export const attemptAllowance = (
+  limits: Pick<QuizSettings, 'max_attempts' | 'cooldown_minutes'> | null | undefined,
+  submittedAt: string[],
+  now: Date = new Date()
+): AttemptAllowance => {
+  const maxAttempts = limits?.max_attempts ?? null;
+  const lastSubmitted = Math.max(...submittedAt.map(date => new Date(date).getTime()));
+  const cooldownEnds = limits?.cooldown_minutes && Number.isFinite(lastSubmitted)
+    ? lastSubmitted + limits.cooldown_minutes * 60 * 1000
+    : null;
+
+  const limitReached = maxAttempts !== null && submittedAt.length >= maxAttempts;
+  const coolingDown = cooldownEnds !== null && cooldownEnds > now.getTime();
+
+  return {
+    attempts_used: submittedAt.length,
+    max_attempts: maxAttempts,
+    next_attempt_at: coolingDown && !limitReached ? new Date(cooldownEnds).toISOString() : null,
+    can_start: !limitReached && !coolingDown
+  };
+};
+
+/** The score that counts for a set of attempts at one module, or null if there are none. */
+export const policyScore = (policy: ScorePolicy, attempts: Pick<ScoredAttempt, 'score' | 'submitted_at'>[]) => {
+  if (attempts.length === 0) return null;
+
+  switch (policy) {
+    case 'best':
+      return Math.max(...attempts.map(a => a.score));
+    case 'latest':
+      return attempts.reduce((latest, a) =>
+        new Date(a.submitted_at) > new Date(latest.submitted_at) ? a : latest
+      ).score;
+    default:
+      return attempts.reduce((sum, a) => sum + a.score, 0) / attempts.length;
+  }
+};
+
+export interface ModuleGrade {
+  module_id: string;
+  user_id?: string;
+  score: number;
+  attempts: number;
+}
+
+/**
+ * Each student's counting score per module, applying the module's score policy.
+ * Practice attempts never count toward a grade. Attempts without a user_id are
+ * taken to be one student's.
+ */
+export const moduleGrades = (
+  attempts: ScoredAttempt[],
+  policies: Record<string, ScorePolicy>
+): ModuleGrade[] => {
+  const groups = new Map<string, ScoredAttempt[]>();
+  attempts.filter(attempt => attempt.mode !== 'practice').forEach(attempt => {
+    const key = `${attempt.user_id ?? ''}:${attempt.module_id}`;
+    groups.set(key, [...(groups.get(key) ?? []), attempt]);
+  });
+
+  return Array.from(groups.values()).map(group => ({
+    module_id: group[0].module_id,
+    user_id: group[0].user_id,
+    score: policyScore(policies[group[0].module_id] ?? DEFAULT_SCORE_POLICY, group) ?? 0,
+    attempts: group.length
+  }));
+};
+
+/** Mean of the counting scores, or 0 when nothing has been graded. */
+export const averageGrade = (grades: Pick<ModuleGrade, 'score'>[]) =>
+  grades.length > 0 ? grades.reduce((sum, g) => sum + g.score, 0) / grades.length : 0;
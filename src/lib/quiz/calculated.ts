@@ -0,0 +1,102 @@
+import { evaluateFormula, FormulaError, formulaVariables } from './formula.ts';
+import { formatNumericAnswer, gradeNumeric } from './numeric.ts';
+import { createRandom } from './random.ts';
+import type { AnswerConfig, GradeResult, QuestionParams, QuestionType, QuestionVariable } from './types.ts';
+
+const DEFAULT_DECIMALS = 2;
+const DISPLAY_SIG_FIGS = 4;
+
+/** Question types whose text and answers use randomized {name} values. */
+export const usesVariables = (type: QuestionType) => type === 'calculated' || type === 'multipart';
+
+/** Each question in an attempt draws from its own stream so adding a question doesn't shift the others. */
+export const questionSeed = (attemptSeed: string, quizId: string) => `${attemptSeed}:${quizId}`;
+
+/** Draws every variable uniformly from its range, rounded to its number of decimals. */
+export const generateParams = (variables: QuestionVariable[] | undefined, seed: string): QuestionParams => {
+  const random = createRandom(seed);
+  const params: QuestionParams = {};
+
+  for (const variable of variables ?? []) {
+    const value = variable.min + random() * (variable.max - variable.min);
+    params[variable.name] = Number(value.toFixed(variable.decimals ?? DEFAULT_DECIMALS));
+  }
+
+  return params;
+};
+
+const VARIABLE_NAME = /^[A-Za-z_]\w*$/;
+
+/**
+ * Returns a message describing the first problem with a calculated question, or null if it can be graded.
+ * References are other values the formula may use, such as earlier parts of a multi-part question.
+ */
+export const validateCalculated = (
+  formula: string,
+  variables: QuestionVariable[] = [],
+  references: QuestionParams = {}
+): string | null => {
+  const names = new Set<string>();
+  for (const variable of variables) {
+    if (!VARIABLE_NAME.test(variable.name)) {
+      return `"${variable.name}" is not a valid variable name`;
+    }
+    if (names.has(variable.name)) {
+      return `Variable "${variable.name}" is defined twice`;
+    }
+    if (!Number.isFinite(variable.min) || !Number.isFinite(variable.max) || variable.min > variable.max) {
+      return `Variable "${variable.name}" needs a range with min no greater than max`;
+    }
+    names.add(variable.name);
+  }
+
+  try {
+    const unknown = formulaVariables(formula).find(name => !names.has(name) && !(name in references));
+    if (unknown) return `The formula uses "${unknown}", which is not a variable`;
+
+    evaluateFormula(formula, { ...generateParams(variables, 'validate'), ...references });
+    return null;
+  } catch (error) {
+    if (error instanceof FormulaError) return error.message;
+    throw error;
+  }
+};
+
+/** Replaces {name} placeholders in a question with the generated values. */
+export const fillTemplate = (text: string, params: QuestionParams) =>
+  text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+
+export const formatCalculatedValue = (value: number, sigFigs = DISPLAY_SIG_FIGS) =>
+  String(Number(value.toPrecision(sigFigs)));
+
+export const formatCalculatedAnswer = (formula: string, config: AnswerConfig, params: QuestionParams) => {
+  try {
+    const value = evaluateFormula(formula, params);
+    return formatNumericAnswer(formatCalculatedValue(value, config.sig_figs), config.unit);
+  } catch (error) {
+    if (error instanceof FormulaError) return '';
+    throw error;
+  }
+};
+
+// Graded against the unrounded result; tolerance and significant figures work as for numeric questions
+export const gradeCalculated = (
+  answer: string | undefined,
+  formula: string,
+  config: AnswerConfig,
+  params: QuestionParams
+): GradeResult => {
+  let expected: number;
+  try {
+    expected = evaluateFormula(formula, params);
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return { isCorrect: false, feedback: 'This question could not be graded.' };
+    }
+    throw error;
+  }
+
+  return gradeNumeric(answer, String(expected), config);
+};
@@ -0,0 +1,55 @@
+import type { QuizDraft } from './types.ts';
+
+// Local copy of the autosaved draft, used when the server save hasn't gone through
+export interface LocalQuizDraft extends QuizDraft {
+  session_id: string;
+  /** The server's draft_saved_at from its last save before this copy was written. */
+  server_saved_at: string | null;
+}
+
+const draftKey = (userId: string, moduleId: string) => `quiz-draft:${userId}:${moduleId}`;
+
+export const loadLocalDraft = (userId: string, moduleId: string): LocalQuizDraft | null => {
+  try {
+    const stored = localStorage.getItem(draftKey(userId, moduleId));
+    return stored ? JSON.parse(stored) as LocalQuizDraft : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLocalDraft = (userId: string, moduleId: string, draft: LocalQuizDraft) => {
+  try {
+    localStorage.setItem(draftKey(userId, moduleId), JSON.stringify(draft));
+  } catch {
+    // Storage full or disabled; the server draft still applies
+  }
+};
+
+export const clearLocalDraft = (userId: string, moduleId: string) => {
+  try {
+    localStorage.removeItem(draftKey(userId, moduleId));
+  } catch {
+    // Nothing to clear
+  }
+};
+
+/**
+ * Picks whichever of the server and local drafts for a session was saved last. Only server
+ * timestamps are compared, as the device clock may be off: the local copy wins only when the
+ * server hasn't saved since it was written, and the server draft wins otherwise.
+ */
+export const latestDraft = (
+  sessionId: string,
+  serverDraft: QuizDraft | null,
+  serverSavedAt: string | null,
+  localDraft: LocalQuizDraft | null
+): QuizDraft | null => {
+  const local = localDraft?.session_id === sessionId ? localDraft : null;
+  if (!local) return serverDraft;
+  if (!serverDraft || !serverSavedAt) return local;
+
+  return local.server_saved_at && new Date(local.server_saved_at).getTime() === new Date(serverSavedAt).getTime()
+    ? local
+    : serverDraft;
+};
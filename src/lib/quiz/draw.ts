@@ -0,0 +1,96 @@
+import { createRandom } from './random.ts';
+import type { AttemptLayout, Difficulty, DrawRule, QuestionType, QuizSettings } from './types.ts';
+
+export interface DrawableQuestion {
+  id: string;
+  type: QuestionType;
+  difficulty?: Difficulty | null;
+  tags?: string[] | null;
+  options?: unknown;
+}
+
+export const DIFFICULTIES: { value: Difficulty; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' }
+];
+
+/** Options are stored either as a JSON array or as a JSON-encoded string of one. */
+export const parseOptions = (options: unknown): string[] => {
+  if (Array.isArray(options)) return options;
+  if (typeof options !== 'string' || !options) return [];
+
+  try {
+    const parsed = JSON.parse(options);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Fisher-Yates shuffle returning a new array. */
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const matchesRule = (question: DrawableQuestion, rule: DrawRule) =>
+  (!rule.difficulty || question.difficulty === rule.difficulty) &&
+  (!rule.tag || (question.tags ?? []).some(tag => tag.toLowerCase() === rule.tag!.toLowerCase()));
+
+/**
+ * Ids of the questions an attempt asks. `questions` must be in authored order, which
+ * is kept unless `shuffleOrder` is set. The same seed always gives the same draw.
+ */
+export const drawQuestions = (
+  questions: DrawableQuestion[],
+  rules: DrawRule[],
+  seed: string,
+  shuffleOrder = false
+): string[] => {
+  let drawn = questions;
+
+  if (rules.length > 0) {
+    const picked = new Set<string>();
+    rules.forEach((rule, index) => {
+      const candidates = questions.filter(q => !picked.has(q.id) && matchesRule(q, rule));
+      shuffle(candidates, createRandom(`${seed}:draw:${index}`))
+        .slice(0, Math.max(0, rule.count))
+        .forEach(q => picked.add(q.id));
+    });
+    drawn = questions.filter(q => picked.has(q.id));
+  }
+
+  return (shuffleOrder ? shuffle(drawn, createRandom(`${seed}:order`)) : drawn).map(q => q.id);
+};
+
+export const buildAttemptLayout = (
+  questions: DrawableQuestion[],
+  settings: Pick<QuizSettings, 'draw_rules' | 'shuffle_questions' | 'shuffle_options'>,
+  seed: string
+): AttemptLayout => {
+  const questionIds = drawQuestions(questions, settings.draw_rules ?? [], seed, settings.shuffle_questions);
+  const optionOrders: Record<string, number[]> = {};
+
+  // Ordering items and matching options are always shuffled; their stored order is alphabetical
+  const shufflesOptions = (type: QuestionType) =>
+    type === 'ordering' || type === 'matching' ||
+    (settings.shuffle_options && (type === 'mcq' || type === 'multi'));
+
+  questions
+    .filter(q => shufflesOptions(q.type) && questionIds.includes(q.id))
+    .forEach(q => {
+      const indices = parseOptions(q.options).map((_, i) => i);
+      optionOrders[q.id] = shuffle(indices, createRandom(`${seed}:options:${q.id}`));
+    });
+
+  return { question_ids: questionIds, option_orders: optionOrders };
+};
+
+/** Options in the order a student saw them; falls back to authored order if the options changed since. */
+export const applyOptionOrder = <T>(options: T[], order?: number[]): T[] =>
+  order && order.length === options.length ? order.map(i => options[i]) : options;
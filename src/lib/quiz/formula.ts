@@ -0,0 +1,189 @@
+// Small arithmetic evaluator for author-written answer formulas.
+// Only numbers, named variables, + - * / ^, parentheses and the functions below are allowed.
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log10: Math.log10,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+// Own properties only, so names such as "valueOf" aren't found on Object.prototype
+const hasOwn = (object: object, name: string) => Object.prototype.hasOwnProperty.call(object, name);
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:[eE][-+]?\d+)?|\.\d+(?:[eE][-+]?\d+)?)|([A-Za-z_]\w*)|(\*\*|[-+*/^(),]))/y;
+  let index = 0;
+
+  while (index < formula.length) {
+    if (/^\s*$/.test(formula.slice(index))) break;
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(formula);
+    if (!match) {
+      throw new FormulaError(`Unexpected character "${formula.slice(index).trim()[0]}"`);
+    }
+
+    if (match[1] !== undefined) tokens.push({ kind: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ kind: 'name', value: match[2] });
+    else tokens.push({ kind: 'op', value: match[3] === '**' ? '^' : match[3] });
+
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+};
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private scope: Record<string, number>) {}
+
+  parse(): number {
+    if (this.tokens.length === 0) throw new FormulaError('Formula is empty');
+
+    const value = this.expression();
+    if (this.position < this.tokens.length) {
+      throw new FormulaError(`Unexpected "${this.tokens[this.position].value}"`);
+    }
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private acceptOp(op: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'op' && token.value === op) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(op: string) {
+    if (!this.acceptOp(op)) throw new FormulaError(`Expected "${op}"`);
+  }
+
+  private expression(): number {
+    let value = this.term();
+    for (;;) {
+      if (this.acceptOp('+')) value += this.term();
+      else if (this.acceptOp('-')) value -= this.term();
+      else return value;
+    }
+  }
+
+  private term(): number {
+    let value = this.unary();
+    for (;;) {
+      if (this.acceptOp('*')) value *= this.unary();
+      else if (this.acceptOp('/')) value /= this.unary();
+      else return value;
+    }
+  }
+
+  private unary(): number {
+    if (this.acceptOp('-')) return -this.unary();
+    if (this.acceptOp('+')) return this.unary();
+    return this.power();
+  }
+
+  // Right-associative, binding tighter than unary minus on its left: -x^2 = -(x^2)
+  private power(): number {
+    const base = this.primary();
+    return this.acceptOp('^') ? Math.pow(base, this.unary()) : base;
+  }
+
+  private primary(): number {
+    const token = this.peek();
+    if (!token) throw new FormulaError('Formula ends unexpectedly');
+
+    if (token.kind === 'number') {
+      this.position++;
+      return token.value;
+    }
+
+    if (token.kind === 'name') {
+      this.position++;
+      if (this.acceptOp('(')) return this.call(token.value);
+      if (hasOwn(this.scope, token.value)) return this.scope[token.value];
+      if (hasOwn(CONSTANTS, token.value)) return CONSTANTS[token.value];
+      throw new FormulaError(`Unknown variable "${token.value}"`);
+    }
+
+    if (this.acceptOp('(')) {
+      const value = this.expression();
+      this.expectOp(')');
+      return value;
+    }
+
+    throw new FormulaError(`Unexpected "${token.value}"`);
+  }
+
+  private call(name: string): number {
+    const fn = hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!fn) throw new FormulaError(`Unknown function "${name}"`);
+
+    const args: number[] = [];
+    if (!this.acceptOp(')')) {
+      do {
+        args.push(this.expression());
+      } while (this.acceptOp(','));
+      this.expectOp(')');
+    }
+    return fn(...args);
+  }
+}
+
+export const evaluateFormula = (formula: string, scope: Record<string, number> = {}): number => {
+  const value = new Parser(tokenize(formula), scope).parse();
+  if (!Number.isFinite(value)) {
+    throw new FormulaError('Formula does not evaluate to a finite number');
+  }
+  return value;
+};
+
+/** Names referenced by a formula that are neither functions nor built-in constants. */
+export const formulaVariables = (formula: string): string[] => {
+  const tokens = tokenize(formula);
+  const names = tokens
+    .filter((token, i) => token.kind === 'name' && !(tokens[i + 1]?.kind === 'op' && tokens[i + 1].value === '('))
+    .map(token => token.value as string)
+    .filter(name => !hasOwn(CONSTANTS, name));
+
+  return [...new Set(names)];
+};
@@ -0,0 +1,131 @@
+import { formatCalculatedAnswer, gradeCalculated } from './calculated.ts';
+import { parseOptions } from './draw.ts';
+import { formatMatches, gradeMatching } from './matching.ts';
+import { gradeMultiSelect, parseSelection } from './multi-select.ts';
+import { answeredPartValues, correctPartValues, parsePartAnswers, partLabel, partWeights } from './multipart.ts';
+import { formatNumericAnswer, gradeNumeric } from './numeric.ts';
+import { formatOrder, gradeOrdering } from './ordering.ts';
+import { gradeShortAnswer } from './short-answer.ts';
+import type { AnswerConfig, GradableQuestion, GradeResult, PartFeedback, QuestionParams, QuestionType } from './types.ts';
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'mcq', label: 'Multiple Choice' },
+  { value: 'multi', label: 'Select All That Apply' },
+  { value: 'numeric', label: 'Numeric' },
+  { value: 'short', label: 'Short Answer' },
+  { value: 'calculated', label: 'Calculated (Randomized)' },
+  { value: 'multipart', label: 'Multi-Part Problem' },
+  { value: 'matching', label: 'Matching' },
+  { value: 'ordering', label: 'Ordering' }
+];
+
+const gradeByType = (question: GradableQuestion, answer: string | undefined, params: QuestionParams): GradeResult => {
+  switch (question.type) {
+    case 'calculated':
+      return gradeCalculated(answer, question.correct_answer, question.answer_config ?? {}, params);
+    case 'multi':
+      return gradeMultiSelect(answer, question.correct_answer, parseOptions(question.options), question.answer_config ?? {});
+    case 'numeric':
+      return gradeNumeric(answer, question.correct_answer, question.answer_config ?? {});
+    case 'short':
+      return gradeShortAnswer(answer, question.correct_answer, question.answer_config ?? {});
+    case 'multipart':
+      return gradeMultiPart(question, answer, params);
+    case 'matching':
+      return gradeMatching(answer, question.correct_answer);
+    case 'ordering':
+      return gradeOrdering(answer, question.correct_answer);
+    default:
+      return { isCorrect: answer === question.correct_answer };
+  }
+};
+
+// Each part is graded as if every earlier part were answered correctly. Carry-forward
+// parts are also graded on the student's own earlier answers, keeping the better result.
+const gradeMultiPart = (question: GradableQuestion, answer: string | undefined, params: QuestionParams): GradeResult => {
+  const parts = question.answer_config?.parts ?? [];
+  const answers = parsePartAnswers(answer);
+  const weights = partWeights(parts);
+  const correctScope = { ...params, ...correctPartValues(parts, params) };
+  const carriedScope = { ...correctScope, ...answeredPartValues(parts, answers) };
+
+  const results = parts.map((part, index): PartFeedback => {
+    const graded = gradeAnswer(part, answers[index], correctScope);
+    const carried = !graded.isCorrect && part.type === 'calculated' && part.carry_forward
+      ? gradeAnswer(part, answers[index], carriedScope)
+      : null;
+    const result = carried && carried.credit > graded.credit ? carried : graded;
+
+    return {
+      is_correct: result.isCorrect,
+      credit: result.credit,
+      weight: weights[index],
+      feedback: result === carried && carried.isCorrect
+        ? 'Correct, following on from your earlier answers.'
+        : result.feedback,
+      correct_answer: formatCorrectAnswer(part, correctScope),
+      carried_forward: result === carried || undefined
+    };
+  });
+
+  return {
+    isCorrect: results.length > 0 && results.every(r => r.is_correct),
+    credit: results.reduce((sum, r) => sum + r.credit * r.weight, 0),
+    parts: results
+  };
+};
+
+export const gradeAnswer = (
+  question: GradableQuestion,
+  answer: string | undefined,
+  params: QuestionParams = {}
+): GradeResult & { credit: number } => {
+  const result = gradeByType(question, answer, params);
+  return { ...result, credit: result.credit ?? (result.isCorrect ? 1 : 0) };
+};
+
+export const formatCorrectAnswer = (question: GradableQuestion, params: QuestionParams = {}): string => {
+  switch (question.type) {
+    case 'calculated':
+      return formatCalculatedAnswer(question.correct_answer, question.answer_config ?? {}, params);
+    case 'multi':
+      return parseSelection(question.correct_answer).join(', ');
+    case 'multipart': {
+      const parts = question.answer_config?.parts ?? [];
+      const scope = { ...params, ...correctPartValues(parts, params) };
+      return parts.map((part, index) => `${partLabel(index)} ${formatCorrectAnswer(part, scope)}`).join('; ');
+    }
+    case 'numeric':
+      return formatNumericAnswer(question.correct_answer, question.answer_config?.unit);
+    case 'matching':
+      return formatMatches(question.answer_config?.prompts ?? [], question.correct_answer);
+    case 'ordering':
+      return formatOrder(question.correct_answer);
+    default:
+      return question.correct_answer;
+  }
+};
+
+/** A student's stored answer as text, e.g. for reviewing an attempt. */
+export const formatGivenAnswer = (
+  question: { type: QuestionType; answer_config?: AnswerConfig | null },
+  answer: string
+): string => {
+  switch (question.type) {
+    case 'multi':
+      return parseSelection(answer).join(', ');
+    case 'multipart': {
+      const parts = question.answer_config?.parts ?? [];
+      const answers = parsePartAnswers(answer);
+      return parts
+        .map((part, index) => `${partLabel(index)} ${formatGivenAnswer(part, answers[index] ?? '') || '—'}`)
+        .join('; ');
+    }
+    case 'matching':
+      return answer ? formatMatches(question.answer_config?.prompts ?? [], answer) : '';
+    case 'ordering':
+      return formatOrder(answer);
+    default:
+      return answer;
+  }
+};
@@ -0,0 +1,132 @@
+import type { Difficulty } from './types.ts';
+
+// Rasch (one-parameter IRT) model: the chance a student of ability θ answers an item of
+// difficulty b correctly is 1 / (1 + e^-(θ - b)). Both are on the same logit scale, with
+// 0 an item of average difficulty. Partial credit counts as a fractional success.
+
+/** Where authored difficulty places an item until it has enough responses to be calibrated. */
+export const AUTHORED_DIFFICULTY: Record<Difficulty, number> = { easy: -1, medium: 0, hard: 1 };
+
+/** Fewer responses than this leave an item uncalibrated. */
+export const MIN_CALIBRATION_RESPONSES = 5;
+
+// Weak priors keep estimates finite for students or items with all-correct or all-wrong responses
+const ABILITY_PRIOR_VARIANCE = 1;
+const DIFFICULTY_PRIOR_VARIANCE = 4;
+const CALIBRATION_ROUNDS = 50;
+const CONVERGED = 1e-4;
+
+export interface ItemResponse {
+  /** Share of the item's points earned, 0-1. */
+  score: number;
+  difficulty: number;
+}
+
+export interface AbilityEstimate {
+  ability: number;
+  standard_error: number;
+}
+
+export interface ItemCalibration {
+  difficulty: number;
+  standard_error: number;
+  responses: number;
+}
+
+export const probabilityCorrect = (ability: number, difficulty: number) =>
+  1 / (1 + Math.exp(difficulty - ability));
+
+/** The calibrated difficulty, or the authored one while the item has too few responses. */
+export const itemDifficulty = (item: { irt_difficulty?: number | null; difficulty?: Difficulty | null }) =>
+  item.irt_difficulty != null
+    ? Number(item.irt_difficulty)
+    : item.difficulty ? AUTHORED_DIFFICULTY[item.difficulty] : 0;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Maximum a posteriori ability from a set of responses, with a standard normal prior.
+ * With no responses this is the prior: ability 0, standard error 1.
+ */
+export const estimateAbility = (responses: ItemResponse[]): AbilityEstimate => {
+  let ability = 0;
+  let information = 1 / ABILITY_PRIOR_VARIANCE;
+
+  for (let iteration = 0; iteration < CALIBRATION_ROUNDS; iteration++) {
+    let gradient = -ability / ABILITY_PRIOR_VARIANCE;
+    information = 1 / ABILITY_PRIOR_VARIANCE;
+    responses.forEach(({ score, difficulty }) => {
+      const p = probabilityCorrect(ability, difficulty);
+      gradient += score - p;
+      information += p * (1 - p);
+    });
+
+    const step = gradient / information;
+    ability += step;
+    if (Math.abs(step) < CONVERGED) break;
+  }
+
+  return { ability: round(ability), standard_error: round(1 / Math.sqrt(information)) };
+};
+
+/**
+ * Item difficulties from every attempt's responses, by joint maximum a posteriori estimation:
+ * abilities and item difficulties are refined in turn until they settle. Each attempt gets its
+ * own ability, since students improve between attempts. Difficulties are centred on 0 across
+ * the calibrated items.
+ */
+export const calibrateItems = (
+  responses: { session_id: string; quiz_id: string; score: number }[]
+): Record<string, ItemCalibration> => {
+  const counts = new Map<string, number>();
+  responses.forEach(r => counts.set(r.quiz_id, (counts.get(r.quiz_id) ?? 0) + 1));
+  const items = Array.from(counts.keys()).filter(id => counts.get(id)! >= MIN_CALIBRATION_RESPONSES);
+  const used = responses.filter(r => items.includes(r.quiz_id));
+
+  const difficulties = new Map(items.map(id => [id, 0]));
+  const abilities = new Map(used.map(r => [r.session_id, 0]));
+
+  for (let iteration = 0; iteration < CALIBRATION_ROUNDS; iteration++) {
+    const abilityGradient = new Map<string, number>();
+    const abilityInformation = new Map<string, number>();
+    used.forEach(r => {
+      const p = probabilityCorrect(abilities.get(r.session_id)!, difficulties.get(r.quiz_id)!);
+      abilityGradient.set(r.session_id, (abilityGradient.get(r.session_id) ?? 0) + r.score - p);
+      abilityInformation.set(r.session_id, (abilityInformation.get(r.session_id) ?? 0) + p * (1 - p));
+    });
+    abilities.forEach((ability, sessionId) => {
+      const gradient = abilityGradient.get(sessionId)! - ability / ABILITY_PRIOR_VARIANCE;
+      abilities.set(sessionId, ability + gradient / (abilityInformation.get(sessionId)! + 1 / ABILITY_PRIOR_VARIANCE));
+    });
+
+    const itemGradient = new Map<string, number>();
+    const itemInformation = new Map<string, number>();
+    used.forEach(r => {
+      const p = probabilityCorrect(abilities.get(r.session_id)!, difficulties.get(r.quiz_id)!);
+      itemGradient.set(r.quiz_id, (itemGradient.get(r.quiz_id) ?? 0) + p - r.score);
+      itemInformation.set(r.quiz_id, (itemInformation.get(r.quiz_id) ?? 0) + p * (1 - p));
+    });
+    let largestStep = 0;
+    difficulties.forEach((difficulty, quizId) => {
+      const gradient = itemGradient.get(quizId)! - difficulty / DIFFICULTY_PRIOR_VARIANCE;
+      const step = gradient / (itemInformation.get(quizId)! + 1 / DIFFICULTY_PRIOR_VARIANCE);
+      difficulties.set(quizId, difficulty + step);
+      largestStep = Math.max(largestStep, Math.abs(step));
+    });
+
+    if (largestStep < CONVERGED) break;
+  }
+
+  const mean = items.reduce((sum, id) => sum + difficulties.get(id)!, 0) / (items.length || 1);
+  const information = new Map<string, number>();
+  used.forEach(r => {
+    const p = probabilityCorrect(abilities.get(r.session_id)!, difficulties.get(r.quiz_id)!);
+    information.set(r.quiz_id, (information.get(r.quiz_id) ?? 0) + p * (1 - p));
+  });
+
+  return Object.fromEntries(items.map(id => [id, {
+    difficulty: round(difficulties.get(id)! - mean),
+    standard_error: round(1 / Math.sqrt(information.get(id)! + 1 / DIFFICULTY_PRIOR_VARIANCE)),
+    responses: counts.get(id)!
+  }]));
+};
@@ -0,0 +1,161 @@
+import { parseSelection } from './multi-select.ts';
+import type { QuestionType } from './types.ts';
+
+// Classical test theory statistics for each question, from submitted responses. Each response
+// is compared with how the same attempt did on its other questions (the rest score), so a
+// question doesn't inflate its own discrimination.
+
+export type ItemFlag = 'too_easy' | 'too_hard' | 'low_discrimination' | 'possibly_miskeyed';
+
+export const ITEM_FLAGS: { value: ItemFlag; label: string; description: string }[] = [
+  { value: 'too_easy', label: 'Too easy', description: 'Nearly every student gets it right, so it tells students apart very little.' },
+  { value: 'too_hard', label: 'Too hard', description: 'Few students get it right. Check the wording and that it was taught.' },
+  { value: 'low_discrimination', label: 'Low discrimination', description: 'Strong and weak students do about equally well on it.' },
+  { value: 'possibly_miskeyed', label: 'Possibly miskeyed', description: 'Students who do well overall tend to miss it or pick another option. Check the answer key.' }
+];
+
+/** Fewer responses than this give statistics too noisy to flag a question on. */
+export const MIN_FLAG_RESPONSES = 10;
+
+// The share of respondents in each of the upper and lower groups for the discrimination index
+const GROUP_SHARE = 0.27;
+const TOO_EASY = 0.9;
+const TOO_HARD = 0.2;
+const LOW_DISCRIMINATION = 0.2;
+
+export interface AnalyzedQuestion {
+  id: string;
+  type: QuestionType;
+  options: string[];
+  correct_answer: string;
+}
+
+export interface AnalyzedResponse {
+  session_id: string;
+  quiz_id: string;
+  answer: string;
+  /** Share of the question's points earned, 0-1. */
+  credit: number;
+  time_spent_ms: number | null;
+}
+
+export interface OptionFrequency {
+  option: string;
+  is_key: boolean;
+  /** Share of all respondents who chose it. */
+  share: number;
+  /** Shares among the attempts that did best and worst on the rest of the quiz. */
+  upper_share: number;
+  lower_share: number;
+}
+
+export interface ItemStats {
+  quiz_id: string;
+  responses: number;
+  /** Average credit as a percentage, so partial credit counts in part. */
+  percent_correct: number;
+  /** Upper group's average credit minus the lower group's, -1 to 1. */
+  discrimination: number | null;
+  /** Correlation between credit on the question and the rest score, -1 to 1. */
+  point_biserial: number | null;
+  average_time_ms: number | null;
+  /** Multiple choice and select-all questions only, in authored order. */
+  options: OptionFrequency[];
+  omitted: number;
+  flags: ItemFlag[];
+}
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const correlation = (xs: number[], ys: number[]): number | null => {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0, vx = 0, vy = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - mx) * (ys[i] - my);
+    vx += (x - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  });
+  return vx > 0 && vy > 0 ? covariance / Math.sqrt(vx * vy) : null;
+};
+
+const chosenOptions = (type: QuestionType, answer: string) =>
+  type === 'multi' ? parseSelection(answer) : answer ? [answer] : [];
+
+const round = (value: number | null, places = 3) =>
+  value === null ? null : Math.round(value * 10 ** places) / 10 ** places;
+
+export const analyzeItems = (questions: AnalyzedQuestion[], responses: AnalyzedResponse[]): ItemStats[] => {
+  // Each attempt's total credit and question count, to take each question back out of
+  const totals = new Map<string, { credit: number; count: number }>();
+  responses.forEach(r => {
+    const total = totals.get(r.session_id) ?? { credit: 0, count: 0 };
+    totals.set(r.session_id, { credit: total.credit + r.credit, count: total.count + 1 });
+  });
+
+  return questions.map(question => {
+    const answered = responses.filter(r => r.quiz_id === question.id);
+    const credits = answered.map(r => r.credit);
+    const percentCorrect = mean(credits) * 100;
+
+    // Average credit on the attempt's other questions; attempts that asked only this one are left out
+    const ranked = answered
+      .map(r => {
+        const total = totals.get(r.session_id)!;
+        return { response: r, rest: total.count > 1 ? (total.credit - r.credit) / (total.count - 1) : null };
+      })
+      .filter((r): r is { response: AnalyzedResponse; rest: number } => r.rest !== null)
+      .sort((a, b) => b.rest - a.rest);
+
+    const groupSize = Math.floor(ranked.length * GROUP_SHARE);
+    const upper = ranked.slice(0, groupSize).map(r => r.response);
+    const lower = ranked.slice(ranked.length - groupSize).map(r => r.response);
+    const discrimination = groupSize > 0
+      ? mean(upper.map(r => r.credit)) - mean(lower.map(r => r.credit))
+      : null;
+    const pointBiserial = ranked.length > 2
+      ? correlation(ranked.map(r => r.response.credit), ranked.map(r => r.rest))
+      : null;
+
+    const times = answered.map(r => r.time_spent_ms).filter((ms): ms is number => ms !== null);
+    const keys = new Set(chosenOptions(question.type, question.correct_answer));
+    const shareChoosing = (group: AnalyzedResponse[], option: string) =>
+      group.length > 0
+        ? group.filter(r => chosenOptions(question.type, r.answer).includes(option)).length / group.length
+        : 0;
+    const options = question.type === 'mcq' || question.type === 'multi'
+      ? question.options.map(option => ({
+          option,
+          is_key: keys.has(option),
+          share: shareChoosing(answered, option),
+          upper_share: shareChoosing(upper, option),
+          lower_share: shareChoosing(lower, option)
+        }))
+      : [];
+
+    const flags: ItemFlag[] = [];
+    if (answered.length >= MIN_FLAG_RESPONSES) {
+      // A wrong option drawing the strongest students away from the key suggests the key is wrong
+      const keyUpperShare = Math.max(0, ...options.filter(o => o.is_key).map(o => o.upper_share));
+      const distractorBeatsKey = question.type === 'mcq' && options.some(o => !o.is_key && o.upper_share > keyUpperShare);
+      const miskeyed = (pointBiserial !== null && pointBiserial < 0) || distractorBeatsKey;
+
+      if (percentCorrect >= TOO_EASY * 100) flags.push('too_easy');
+      if (percentCorrect <= TOO_HARD * 100) flags.push('too_hard');
+      if (miskeyed) flags.push('possibly_miskeyed');
+      else if (flags.length === 0 && pointBiserial !== null && pointBiserial < LOW_DISCRIMINATION) flags.push('low_discrimination');
+    }
+
+    return {
+      quiz_id: question.id,
+      responses: answered.length,
+      percent_correct: round(percentCorrect, 1)!,
+      discrimination: round(discrimination),
+      point_biserial: round(pointBiserial),
+      average_time_ms: times.length > 0 ? Math.round(mean(times)) : null,
+      options,
+      omitted: answered.filter(r => options.length > 0 ? chosenOptions(question.type, r.answer).length === 0 : !r.answer.trim()).length,
+      flags
+    };
+  });
+};
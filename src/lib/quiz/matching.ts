@@ -0,0 +1,54 @@
+import { formatSelection, parseSelection } from './multi-select.ts';
+import type { GradeResult } from './types.ts';
+
+// Matching answers and answer keys are JSON arrays holding the option matched to each
+// prompt, in prompt order; '' leaves a prompt unmatched. Options that match no prompt
+// are distractors.
+
+export const setMatch = (value: string | undefined, index: number, option: string, promptCount: number) => {
+  const matches = parseSelection(value);
+  while (matches.length < promptCount) matches.push('');
+  // Each option is matched at most once, so choosing it again moves it
+  const updated = matches.map((match, i) => i === index ? option : match === option ? '' : match);
+  return updated.some(Boolean) ? formatSelection(updated) : '';
+};
+
+/** Credit is the share of prompts matched correctly. */
+export const gradeMatching = (answer: string | undefined, correctAnswer: string): GradeResult => {
+  const correct = parseSelection(correctAnswer);
+  const given = parseSelection(answer);
+
+  if (!given.some(Boolean)) {
+    return { isCorrect: false, credit: 0, feedback: 'Nothing was matched.' };
+  }
+
+  const matched = correct.filter((match, index) => given[index] === match).length;
+  const isCorrect = correct.length > 0 && matched === correct.length;
+  if (isCorrect) return { isCorrect, credit: 1 };
+
+  return {
+    isCorrect,
+    credit: correct.length > 0 ? matched / correct.length : 0,
+    feedback: `${matched} of ${correct.length} matched correctly.`
+  };
+};
+
+export const formatMatches = (prompts: string[], value: string) => {
+  const matches = parseSelection(value);
+  return prompts.map((prompt, index) => `${prompt} → ${matches[index] || '—'}`).join('; ');
+};
+
+/** Puts the matches first, in prompt order, followed by the distractors, the way they're edited. */
+export const editableOptions = (options: string[], correctAnswer: string) => {
+  const matches = parseSelection(correctAnswer);
+  return [...matches, ...options.filter(option => !matches.includes(option))];
+};
+
+/** Returns a message describing what's missing, or null if the question can be graded. */
+export const validateMatching = (prompts: string[] = [], correctAnswer: string): string | null => {
+  const matches = parseSelection(correctAnswer);
+  if (prompts.length < 2) return 'A matching question needs at least two pairs';
+  if (prompts.some((prompt, index) => !prompt.trim() || !matches[index]?.trim())) return 'Every pair needs a prompt and a match';
+  if (new Set(matches.map(match => match.trim())).size !== matches.length) return 'Each match must be different';
+  return null;
+};
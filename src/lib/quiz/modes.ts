@@ -0,0 +1,12 @@
+import type { QuizMode } from './types.ts';
+
+export const QUIZ_MODES: { value: QuizMode; label: string }[] = [
+  { value: 'practice', label: 'Practice' },
+  { value: 'exam', label: 'Exam' }
+];
+
+/** Whether a student may see the score and answers of an attempt yet. */
+export const isFeedbackReleased = (
+  attempt: { mode: QuizMode; feedback_release_at?: string | null },
+  now: Date = new Date()
+) => attempt.mode !== 'exam' || !attempt.feedback_release_at || new Date(attempt.feedback_release_at) <= now;
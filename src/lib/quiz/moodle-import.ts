@@ -0,0 +1,471 @@
+import { validateMatching } from './matching.ts';
+import { formatSelection } from './multi-select.ts';
+import { sortItems } from './ordering.ts';
+import { parseUnit } from './units.ts';
+import type { AnswerConfig, QuestionType } from './types.ts';
+
+// Moodle question banks exported as GIFT or Moodle XML. Multiple choice, true/false, short
+// answer, numerical and matching questions map onto our question types; anything else is
+// listed as skipped so it can be recreated by hand.
+
+export type ImportFormat = 'gift' | 'moodle_xml' | 'qti';
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: 'gift', label: 'GIFT' },
+  { value: 'moodle_xml', label: 'Moodle XML' },
+  { value: 'qti', label: 'QTI 2.1' }
+];
+
+/** A question ready to insert into the quizzes table, options unencoded. */
+export interface ImportedQuestion {
+  /** The question's name in the source file, or the start of its text if it had none. */
+  name: string;
+  question: string;
+  type: QuestionType;
+  options: string[] | null;
+  correct_answer: string;
+  answer_config: AnswerConfig | null;
+  explanation: string | null;
+  points: number;
+  tags: string[];
+  /** Source settings that were lost or approximated in the conversion. */
+  warnings: string[];
+}
+
+export interface SkippedQuestion {
+  name: string;
+  reason: string;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  questions: ImportedQuestion[];
+  skipped: SkippedQuestion[];
+}
+
+/** An answer as both formats describe it: its text and the percentage of the grade it earns. */
+interface MoodleAnswer {
+  text: string;
+  fraction: number;
+  /** Numerical answers only. */
+  tolerance?: number;
+}
+
+interface QuestionBase {
+  name: string;
+  question: string;
+  explanation: string | null;
+  points: number;
+  tags: string[];
+}
+
+type Converted = ImportedQuestion | { skip: string };
+
+const NAME_LENGTH = 60;
+
+const nameFor = (name: string, question: string) =>
+  name.trim() || (question.length > NAME_LENGTH ? `${question.slice(0, NAME_LENGTH - 1)}…` : question);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) => text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+  if (code[0] === '#') {
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  }
+  return ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+/** Plain text from Moodle's HTML, keeping paragraph and line breaks. */
+export const htmlToText = (html: string) => decodeEntities(html
+  .replace(/<br\b[^>]*>/gi, '\n')
+  .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+  .replace(/<[^>]+>/g, ''))
+  .replace(/[ \t]+/g, ' ')
+  .replace(/ *\n */g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Images and attachments live in Moodle's file store and don't come with the export
+const hasEmbeddedFiles = (html: string) => /@@PLUGINFILE@@|<img\b/i.test(html);
+
+const choiceQuestion = (base: QuestionBase, answers: MoodleAnswer[], single?: boolean): Converted => {
+  const options = answers.map(answer => answer.text).filter(Boolean);
+  if (options.length < 2) return { skip: 'Needs at least two options' };
+  if (new Set(options).size < options.length) return { skip: 'Has two options with the same text' };
+
+  const correct = answers.filter(answer => answer.fraction > 0);
+  const fullMarks = answers.filter(answer => answer.fraction >= 100);
+  if (correct.length === 0) return { skip: 'No option earns credit' };
+
+  if (single ?? (fullMarks.length === 1 && correct.length === 1)) {
+    if (fullMarks.length !== 1) return { skip: 'Single-answer question without exactly one fully correct option' };
+    return {
+      ...base,
+      type: 'mcq',
+      options,
+      correct_answer: fullMarks[0].text,
+      answer_config: null,
+      warnings: correct.length > 1 ? ['Partial credit for other options was dropped.'] : []
+    };
+  }
+
+  // Moodle deducts for wrong choices when they carry negative grades
+  const penalizesWrong = answers.some(answer => answer.fraction < 0);
+  return {
+    ...base,
+    type: 'multi',
+    options,
+    correct_answer: formatSelection(correct.map(answer => answer.text)),
+    answer_config: { scoring: penalizesWrong ? 'right_minus_wrong' : 'proportional' },
+    warnings: correct.some(answer => Math.abs(answer.fraction - 100 / correct.length) > 1)
+      ? ['Correct options now earn equal shares of the points.']
+      : []
+  };
+};
+
+const trueFalseQuestion = (base: QuestionBase, isTrue: boolean): Converted => ({
+  ...base,
+  type: 'mcq',
+  options: ['True', 'False'],
+  correct_answer: isTrue ? 'True' : 'False',
+  answer_config: null,
+  warnings: []
+});
+
+// Moodle's * wildcard becomes a pattern, as accepted answers are compared whole
+const wildcardPattern = (text: string) =>
+  `^${text.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`;
+
+const shortAnswerQuestion = (base: QuestionBase, answers: MoodleAnswer[], caseSensitive = false): Converted => {
+  const accepted = answers.filter(answer => answer.fraction >= 100 && answer.text);
+  if (accepted.length === 0) return { skip: 'No answer earns full credit' };
+
+  const exact = accepted.filter(answer => !answer.text.includes('*')).map(answer => answer.text);
+  const patterns = accepted.filter(answer => answer.text.includes('*')).map(answer => wildcardPattern(answer.text));
+  if (exact.length === 0 && patterns.length > 0) return { skip: 'Only wildcard answers, which need a plain answer to show students' };
+
+  return {
+    ...base,
+    type: 'short',
+    options: null,
+    correct_answer: exact[0],
+    answer_config: {
+      accepted_answers: exact.slice(1),
+      patterns,
+      case_sensitive: caseSensitive
+    },
+    warnings: answers.some(answer => answer.fraction > 0 && answer.fraction < 100)
+      ? ['Partial-credit answers were dropped.']
+      : []
+  };
+};
+
+const numericQuestion = (base: QuestionBase, answers: MoodleAnswer[], unit?: string): Converted => {
+  const correct = answers.find(answer => answer.fraction >= 100);
+  if (!correct) return { skip: 'No answer earns full credit' };
+  if (correct.text === '*') return { skip: 'Accepts any number' };
+  if (!Number.isFinite(Number(correct.text))) return { skip: `"${correct.text}" isn't a number` };
+
+  const warnings: string[] = [];
+  if (answers.some(answer => answer !== correct && answer.fraction > 0)) warnings.push('Partial-credit answers were dropped.');
+  if (unit && !parseUnit(unit)) warnings.push(`The unit "${unit}" isn't recognized, so answers are compared as plain numbers.`);
+
+  return {
+    ...base,
+    type: 'numeric',
+    options: null,
+    correct_answer: correct.text,
+    answer_config: {
+      tolerance: Math.abs(correct.tolerance ?? 0),
+      tolerance_type: 'absolute',
+      ...(unit && parseUnit(unit) ? { unit } : {})
+    },
+    warnings
+  };
+};
+
+const matchingQuestion = (base: QuestionBase, pairs: { prompt: string; match: string }[]): Converted => {
+  // Pairs without a prompt are distractors
+  const matched = pairs.filter(pair => pair.prompt);
+  const prompts = matched.map(pair => pair.prompt);
+  const correctAnswer = formatSelection(matched.map(pair => pair.match));
+  const problem = validateMatching(prompts, correctAnswer);
+  if (problem) return { skip: problem };
+
+  return {
+    ...base,
+    type: 'matching',
+    options: sortItems([...new Set(pairs.map(pair => pair.match).filter(Boolean))]),
+    correct_answer: correctAnswer,
+    answer_config: { prompts },
+    warnings: []
+  };
+};
+
+const collect = (
+  format: ImportFormat,
+  converted: { name: string; result: Converted }[]
+): ImportPreview => ({
+  format,
+  questions: converted
+    .map(c => c.result)
+    .filter((result): result is ImportedQuestion => !('skip' in result)),
+  skipped: converted
+    .filter(c => 'skip' in c.result)
+    .map(c => ({ name: c.name, reason: (c.result as { skip: string }).skip }))
+});
+
+// GIFT
+
+// Splits on any of `separators` not escaped with a backslash
+const splitUnescaped = (text: string, separators: string): { separator: string; text: string }[] => {
+  const parts = [{ separator: '', text: '' }];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      parts[parts.length - 1].text += text[i] + text[i + 1];
+      i++;
+    } else if (separators.includes(text[i])) {
+      parts.push({ separator: text[i], text: '' });
+    } else {
+      parts[parts.length - 1].text += text[i];
+    }
+  }
+  return parts;
+};
+
+const indexOfUnescaped = (text: string, char: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === char) return i;
+  }
+  return -1;
+};
+
+const unescapeGift = (text: string) => text.replace(/\\n/g, '\n').replace(/\\([:~=#{}\\])/g, '$1').trim();
+
+// GIFT text may start with [html], [markdown], [plain] or [moodle]
+const giftText = (text: string) => {
+  const format = text.trim().match(/^\[(html|markdown|plain|moodle)\]/i);
+  const body = format ? text.trim().slice(format[0].length) : text;
+  return format?.[1].toLowerCase() === 'html' ? htmlToText(unescapeGift(body)) : unescapeGift(body);
+};
+
+interface GiftAnswer {
+  marker: string;
+  fraction: number | null;
+  text: string;
+}
+
+// `=right`, `~wrong` and `~%50%partly right`, each optionally followed by #feedback
+const giftAnswers = (body: string): GiftAnswer[] =>
+  splitUnescaped(body, '=~')
+    .filter(part => part.separator)
+    .map(part => {
+      const withoutFeedback = part.text.slice(0, indexOfUnescaped(part.text, '#') === -1 ? undefined : indexOfUnescaped(part.text, '#'));
+      const weight = withoutFeedback.trim().match(/^%(-?[\d.]+)%/);
+      return {
+        marker: part.separator,
+        fraction: weight ? Number(weight[1]) : null,
+        text: (weight ? withoutFeedback.trim().slice(weight[0].length) : withoutFeedback).trim()
+      };
+    });
+
+// A number with an optional :tolerance, or a min..max range
+const giftNumber = (text: string): MoodleAnswer | null => {
+  const range = text.match(/^(-?[\d.eE+-]+)\.\.(-?[\d.eE+-]+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return Number.isFinite(min) && Number.isFinite(max)
+      ? { text: String(Number(((min + max) / 2).toPrecision(12))), fraction: 100, tolerance: Number((Math.abs(max - min) / 2).toPrecision(12)) }
+      : null;
+  }
+
+  const [value, tolerance = '0'] = text.split(':');
+  return { text: value.trim(), fraction: 100, tolerance: Number(tolerance) || 0 };
+};
+
+const giftQuestion = (base: QuestionBase, body: string): Converted => {
+  if (!body.trim()) return { skip: 'Essay questions are not supported' };
+
+  if (body.trim().startsWith('#')) {
+    const numeric = body.trim().slice(1);
+    const entries = giftAnswers(numeric);
+    const answers = entries.length > 0
+      ? entries.map(entry => ({ ...giftNumber(unescapeGift(entry.text)) ?? { text: entry.text }, fraction: entry.fraction ?? 100 }))
+      : [giftNumber(unescapeGift(numeric.split('#')[0]))];
+    return numericQuestion(base, answers.filter((answer): answer is MoodleAnswer => !!answer));
+  }
+
+  const trueFalse = body.trim().split('#')[0].trim().match(/^(T|F|TRUE|FALSE)$/i);
+  if (trueFalse) return trueFalseQuestion(base, trueFalse[1].toUpperCase().startsWith('T'));
+
+  const entries = giftAnswers(body);
+  if (entries.length === 0) return { skip: 'Could not read the answers' };
+
+  if (entries.every(entry => entry.marker === '=' && entry.text.includes('->'))) {
+    return matchingQuestion(base, entries.map(entry => {
+      const arrow = entry.text.indexOf('->');
+      return { prompt: giftText(entry.text.slice(0, arrow)), match: giftText(entry.text.slice(arrow + 2)) };
+    }));
+  }
+
+  const answers = entries.map(entry => ({
+    text: giftText(entry.text),
+    fraction: entry.fraction ?? (entry.marker === '=' ? 100 : 0)
+  }));
+  return entries.some(entry => entry.marker === '~')
+    ? choiceQuestion(base, answers)
+    : shortAnswerQuestion(base, answers);
+};
+
+export const parseGift = (text: string): ImportPreview => {
+  const converted: { name: string; result: Converted }[] = [];
+  let category: string | null = null;
+
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => !line.trim().startsWith('//'))
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean);
+
+  blocks.forEach(block => {
+    let rest = block;
+    const categoryLine = rest.match(/^\$CATEGORY:\s*(.+)$/m);
+    if (categoryLine) {
+      category = categoryLine[1].split('/').pop()?.trim() || null;
+      rest = rest.replace(categoryLine[0], '').trim();
+      if (!rest) return;
+    }
+
+    let name = '';
+    const title = rest.match(/^::((?:\\.|[^:]|:(?!:))*)::/);
+    if (title) {
+      name = unescapeGift(title[1]);
+      rest = rest.slice(title[0].length);
+    }
+
+    const open = indexOfUnescaped(rest, '{');
+    const close = open === -1 ? -1 : indexOfUnescaped(rest, '}', open);
+    if (open === -1 || close === -1) {
+      converted.push({ name: nameFor(name, giftText(rest)), result: { skip: 'Descriptions are not questions' } });
+      return;
+    }
+
+    // Text after the answers makes a fill-in-the-blank question
+    const after = rest.slice(close + 1).trim();
+    const question = giftText(rest.slice(0, open)) + (after ? ` _____ ${giftText(after)}` : '');
+    const body = rest.slice(open + 1, close);
+    const feedbackAt = body.indexOf('####');
+    const base: QuestionBase = {
+      name: nameFor(name, question),
+      question,
+      explanation: feedbackAt === -1 ? null : giftText(body.slice(feedbackAt + 4)) || null,
+      points: 1,
+      tags: category ? [category] : []
+    };
+
+    converted.push({
+      name: base.name,
+      result: hasEmbeddedFiles(rest)
+        ? { skip: 'Has embedded images or files, which are not included in the export' }
+        : giftQuestion(base, feedbackAt === -1 ? body : body.slice(0, feedbackAt))
+    });
+  });
+
+  return collect('gift', converted);
+};
+
+// Moodle XML
+
+const childText = (element: Element, path: string) =>
+  element.querySelector(`:scope > ${path.split(' ').join(' > ')}`)?.textContent ?? '';
+
+const xmlAnswers = (question: Element): MoodleAnswer[] =>
+  Array.from(question.querySelectorAll(':scope > answer')).map(answer => ({
+    text: htmlToText(childText(answer, 'text')),
+    fraction: Number(answer.getAttribute('fraction') ?? 0),
+    tolerance: Number(childText(answer, 'tolerance')) || 0
+  }));
+
+const UNSUPPORTED_XML_TYPES: Record<string, string> = {
+  essay: 'Essay questions are not supported',
+  description: 'Descriptions are not questions',
+  calculated: 'Moodle calculated questions use a different formula syntax; recreate them as calculated questions',
+  calculatedsimple: 'Moodle calculated questions use a different formula syntax; recreate them as calculated questions',
+  calculatedmulti: 'Moodle calculated questions use a different formula syntax; recreate them as calculated questions',
+  multianswer: 'Embedded answers (Cloze) are not supported',
+  randomsamatch: 'Random short-answer matching is not supported'
+};
+
+const xmlQuestion = (type: string, base: QuestionBase, question: Element): Converted => {
+  switch (type) {
+    case 'multichoice':
+      return choiceQuestion(base, xmlAnswers(question), childText(question, 'single').trim() !== 'false');
+    case 'truefalse': {
+      const trueAnswer = xmlAnswers(question).find(answer => answer.text.toLowerCase() === 'true');
+      return trueFalseQuestion(base, (trueAnswer?.fraction ?? 0) >= 100);
+    }
+    case 'shortanswer':
+      return shortAnswerQuestion(base, xmlAnswers(question), childText(question, 'usecase').trim() === '1');
+    case 'numerical': {
+      // Only the base unit is kept; other units students could answer in are converted anyway
+      const baseUnit = Array.from(question.querySelectorAll(':scope > units > unit'))
+        .find(unit => Number(childText(unit, 'multiplier')) === 1);
+      return numericQuestion(base, xmlAnswers(question), baseUnit ? childText(baseUnit, 'unit_name').trim() : undefined);
+    }
+    case 'matching':
+      return matchingQuestion(base, Array.from(question.querySelectorAll(':scope > subquestion')).map(sub => ({
+        prompt: htmlToText(childText(sub, 'text')),
+        match: htmlToText(childText(sub, 'answer text'))
+      })));
+    default:
+      return { skip: UNSUPPORTED_XML_TYPES[type] ?? `"${type}" questions are not supported` };
+  }
+};
+
+export const parseMoodleXml = (text: string): ImportPreview => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror') || doc.documentElement.nodeName !== 'quiz') {
+    throw new Error('Not a Moodle XML question file');
+  }
+
+  const converted: { name: string; result: Converted }[] = [];
+  let category: string | null = null;
+
+  Array.from(doc.documentElement.querySelectorAll(':scope > question')).forEach(question => {
+    const type = question.getAttribute('type') ?? '';
+    if (type === 'category') {
+      category = childText(question, 'category text').split('/').pop()?.trim() || null;
+      return;
+    }
+
+    const html = childText(question, 'questiontext text');
+    const body = htmlToText(html);
+    const tags = Array.from(question.querySelectorAll(':scope > tags > tag > text')).map(tag => tag.textContent?.trim() ?? '');
+    const points = Number(childText(question, 'defaultgrade'));
+    const base: QuestionBase = {
+      name: nameFor(htmlToText(childText(question, 'name text')), body),
+      question: body,
+      explanation: htmlToText(childText(question, 'generalfeedback text')) || null,
+      points: points > 0 ? points : 1,
+      tags: [...new Set([...(category ? [category] : []), ...tags].filter(Boolean))]
+    };
+
+    converted.push({
+      name: base.name,
+      result: hasEmbeddedFiles(html)
+        ? { skip: 'Has embedded images or files, which are not included in the export' }
+        : xmlQuestion(type, base, question)
+    });
+  });
+
+  return collect('moodle_xml', converted);
+};
+
+/** Reads a GIFT or Moodle XML export, telling them apart by content. */
+export const parseQuestionFile = (text: string): ImportPreview =>
+  /^\s*(<\?xml|<quiz[\s>])/.test(text.replace(/^\uFEFF/, '')) ? parseMoodleXml(text) : parseGift(text);
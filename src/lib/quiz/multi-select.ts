@@ -0,0 +1,65 @@
+import type { GradeResult, MultiSelectConfig } from './types.ts';
+
+// Multi-select answers and answer keys are JSON arrays of option text
+export const parseSelection = (value: string | undefined): string[] => {
+  if (!value) return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const formatSelection = (selection: string[]) => JSON.stringify(selection);
+
+export const toggleSelection = (value: string | undefined, option: string) => {
+  const selection = parseSelection(value);
+  return formatSelection(
+    selection.includes(option) ? selection.filter(item => item !== option) : [...selection, option]
+  );
+};
+
+export const gradeMultiSelect = (
+  answer: string | undefined,
+  correctAnswer: string,
+  options: string[],
+  config: MultiSelectConfig = {}
+): GradeResult => {
+  const correct = new Set(parseSelection(correctAnswer));
+  const selected = new Set(parseSelection(answer).filter(option => options.includes(option)));
+
+  if (selected.size === 0) {
+    return { isCorrect: false, credit: 0, feedback: 'No options were selected.' };
+  }
+
+  const rightChoices = [...selected].filter(option => correct.has(option)).length;
+  const wrongChoices = selected.size - rightChoices;
+  const isCorrect = wrongChoices === 0 && rightChoices === correct.size;
+
+  let credit: number;
+  switch (config.scoring ?? 'all_or_nothing') {
+    case 'proportional': {
+      const marked = options.filter(option => selected.has(option) === correct.has(option)).length;
+      credit = options.length > 0 ? marked / options.length : 0;
+      break;
+    }
+    case 'right_minus_wrong':
+      credit = correct.size > 0 ? Math.max(0, (rightChoices - wrongChoices) / correct.size) : 0;
+      break;
+    default:
+      credit = isCorrect ? 1 : 0;
+  }
+
+  if (isCorrect) return { isCorrect, credit: 1 };
+
+  const missed = correct.size - rightChoices;
+  const notes = [
+    rightChoices > 0 && `${rightChoices} of ${correct.size} correct option${correct.size === 1 ? '' : 's'} selected`,
+    wrongChoices > 0 && `${wrongChoices} incorrect option${wrongChoices === 1 ? '' : 's'} selected`,
+    rightChoices === 0 && missed > 0 && 'none of the correct options selected'
+  ].filter(Boolean);
+
+  return { isCorrect, credit, feedback: `${notes.join(', ')}.`.replace(/^./, c => c.toUpperCase()) };
+};
@@ -0,0 +1,153 @@
+import { generateParams, validateCalculated } from './calculated.ts';
+import { evaluateFormula, FormulaError } from './formula.ts';
+import { formatSelection, parseSelection } from './multi-select.ts';
+import { isNumericValue, parseNumericAnswer } from './numeric.ts';
+import { convertUnit } from './units.ts';
+import type { PartType, QuestionParams, QuestionPart, QuestionVariable } from './types.ts';
+
+export const PART_TYPES: { value: PartType; label: string }[] = [
+  { value: 'numeric', label: 'Numeric' },
+  { value: 'calculated', label: 'Calculated' },
+  { value: 'mcq', label: 'Multiple Choice' },
+  { value: 'multi', label: 'Select All That Apply' },
+  { value: 'short', label: 'Short Answer' }
+];
+
+export const blankPart = (type: PartType, prompt = ''): QuestionPart => ({
+  prompt,
+  type,
+  options: type === 'mcq' || type === 'multi' ? ['', '', '', ''] : undefined,
+  correct_answer: type === 'multi' ? formatSelection([]) : '',
+  answer_config: type === 'numeric' || type === 'calculated'
+    ? { tolerance_type: 'relative', tolerance: 1 }
+    : type === 'multi' ? { scoring: 'all_or_nothing' } : {}
+});
+
+/** Trims parts for saving and drops blank options, as standalone questions do. */
+export const cleanParts = (parts: QuestionPart[]): QuestionPart[] =>
+  parts.map(part => ({
+    ...part,
+    prompt: part.prompt.trim(),
+    correct_answer: part.correct_answer.trim(),
+    options: part.options?.filter(option => option.trim())
+  }));
+
+// Multi-part answers are JSON arrays holding each part's answer in order
+export const parsePartAnswers = (value: string | undefined): string[] => {
+  if (!value) return [];
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(item => typeof item === 'string' ? item : '') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const setPartAnswer = (value: string | undefined, index: number, answer: string) => {
+  const answers = parsePartAnswers(value);
+  while (answers.length <= index) answers.push('');
+  answers[index] = answer;
+  return answers.some(Boolean) ? JSON.stringify(answers) : '';
+};
+
+/** Parts are shown as (a), (b), ... */
+export const partLabel = (index: number) => `(${String.fromCharCode(97 + index)})`;
+
+/** Name a later formula uses for the value of a numeric part. */
+export const partReference = (index: number) => `part${index + 1}`;
+
+const hasValue = (type: PartType) => type === 'numeric' || type === 'calculated';
+
+/** Each part's share of the question's points. */
+export const partWeights = (parts: Pick<QuestionPart, 'weight'>[]): number[] => {
+  const weights = parts.map(part => part.weight && part.weight > 0 ? part.weight : 1);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+};
+
+const tryEvaluate = (formula: string, scope: QuestionParams) => {
+  try {
+    return evaluateFormula(formula, scope);
+  } catch (error) {
+    if (error instanceof FormulaError) return NaN;
+    throw error;
+  }
+};
+
+/** Values of the numeric parts when every earlier part is answered correctly. */
+export const correctPartValues = (parts: QuestionPart[], params: QuestionParams): QuestionParams => {
+  const values: QuestionParams = {};
+
+  parts.forEach((part, index) => {
+    if (!hasValue(part.type)) return;
+
+    const value = part.type === 'calculated'
+      ? tryEvaluate(part.correct_answer, { ...params, ...values })
+      : Number(part.correct_answer);
+    if (Number.isFinite(value)) values[partReference(index)] = value;
+  });
+
+  return values;
+};
+
+/** The student's numeric answers, converted to each part's unit, for carrying forward into later parts. */
+export const answeredPartValues = (parts: QuestionPart[], answers: string[]): QuestionParams => {
+  const values: QuestionParams = {};
+
+  parts.forEach((part, index) => {
+    const parsed = hasValue(part.type) ? parseNumericAnswer(answers[index] ?? '') : null;
+    if (!parsed) return;
+
+    const unit = part.answer_config?.unit;
+    const value = unit && parsed.unit && parsed.unit !== unit
+      ? convertUnit(parsed.value, parsed.unit, unit)
+      : parsed.value;
+    if (value !== null) values[partReference(index)] = value;
+  });
+
+  return values;
+};
+
+/** Returns a message describing the first part that can't be graded, or null if every part can. */
+export const validateParts = (parts: QuestionPart[] = [], variables: QuestionVariable[] = []): string | null => {
+  if (parts.length < 2) return 'A multi-part question needs at least two parts';
+
+  const sampleValues = correctPartValues(parts, generateParams(variables, 'validate'));
+
+  for (const [index, part] of parts.entries()) {
+    const label = `Part ${partLabel(index)}`;
+    if (!part.prompt.trim()) return `${label} needs a prompt`;
+
+    const options = (part.options ?? []).filter(option => option.trim());
+    switch (part.type) {
+      case 'numeric':
+        if (!isNumericValue(part.correct_answer)) return `${label} needs a numeric correct value`;
+        break;
+      case 'calculated': {
+        // Only parts that come before this one can be referenced
+        const references = Object.fromEntries(
+          parts.slice(0, index)
+            .map((_, earlier) => partReference(earlier))
+            .filter(name => name in sampleValues)
+            .map(name => [name, sampleValues[name]])
+        );
+        const error = validateCalculated(part.correct_answer, variables, references);
+        if (error) return `${label}: ${error}`;
+        break;
+      }
+      case 'multi':
+        if (!parseSelection(part.correct_answer).some(option => options.includes(option))) {
+          return `${label} needs at least one correct option`;
+        }
+        break;
+      case 'mcq':
+        if (!options.includes(part.correct_answer)) return `${label} needs a correct option`;
+        break;
+      default:
+        if (!part.correct_answer.trim()) return `${label} needs a correct answer`;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,79 @@
+import { convertUnit, parseUnit, unitMismatch } from './units.ts';
+import type { GradeResult, NumericAnswerConfig } from './types.ts';
+
+export interface NumericAnswer {
+  raw: string;
+  value: number;
+  unit: string;
+}
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+// A value followed by an optional unit, with or without a space: "3.2 kW", "1.1e4 BTU/h", "3200J/s"
+const ANSWER_PATTERN = /^([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)(?![\d.])\s*(.*)$/;
+
+// Numeric answers are stored as "<value> <unit>", e.g. "12.5 W/m²·K"
+export const formatNumericAnswer = (value: string, unit?: string) =>
+  unit ? `${value.trim()} ${unit}` : value.trim();
+
+export const parseNumericAnswer = (answer: string): NumericAnswer | null => {
+  const match = answer.trim().match(ANSWER_PATTERN);
+  if (!match) return null;
+
+  return { raw: match[1], value: Number(match[1]), unit: match[2].trim() };
+};
+
+export const isNumericValue = (value: string) => NUMBER_PATTERN.test(value.trim());
+
+/** Counts significant figures using the usual rule that trailing zeros need a decimal point. */
+export const countSignificantFigures = (raw: string): number => {
+  const mantissa = raw.trim().replace(/^[-+]/, '').split(/[eE]/)[0];
+  const digits = mantissa.replace('.', '').replace(/^0+/, '');
+  if (!digits) return 1;
+
+  return mantissa.includes('.') ? digits.length : digits.replace(/0+$/, '').length;
+};
+
+export const isWithinTolerance = (value: number, target: number, config: NumericAnswerConfig = {}) => {
+  const { tolerance, tolerance_type = 'relative' } = config;
+  const allowed = tolerance == null
+    ? 0
+    : tolerance_type === 'absolute'
+      ? tolerance
+      : Math.abs(target) * tolerance / 100;
+
+  // Leave room for floating point error introduced by unit conversion
+  return Math.abs(value - target) <= allowed + 1e-9 * Math.max(1, Math.abs(target));
+};
+
+export const gradeNumeric = (
+  answer: string | undefined,
+  correctAnswer: string,
+  config: NumericAnswerConfig = {}
+): GradeResult => {
+  const parsed = answer ? parseNumericAnswer(answer) : null;
+  if (!parsed) {
+    return { isCorrect: false, feedback: 'No numeric value was given.' };
+  }
+
+  // Any dimensionally equivalent unit is accepted; a missing unit is taken to be the expected one
+  let value = parsed.value;
+  if (parsed.unit && parsed.unit !== config.unit) {
+    // Text after a dimensionless answer only counts against it if it's a unit with dimensions
+    const mismatch = config.unit || parseUnit(parsed.unit) ? unitMismatch(parsed.unit, config.unit) : null;
+    if (mismatch) return { isCorrect: false, feedback: mismatch };
+    if (config.unit) value = convertUnit(value, parsed.unit, config.unit) ?? value;
+  }
+
+  if (!isWithinTolerance(value, Number(correctAnswer), config)) {
+    return { isCorrect: false };
+  }
+
+  if (config.sig_figs && countSignificantFigures(parsed.raw) !== config.sig_figs) {
+    return {
+      isCorrect: false,
+      feedback: `The value is right, but it should be reported to ${config.sig_figs} significant figures.`
+    };
+  }
+
+  return { isCorrect: true };
+};
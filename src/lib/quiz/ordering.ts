@@ -0,0 +1,69 @@
+import { formatSelection, parseSelection } from './multi-select.ts';
+import type { GradeResult } from './types.ts';
+
+// Ordering answers and answer keys are JSON arrays of the items in order
+
+/** Stored options are sorted so the order they're saved in doesn't give the answer away. */
+export const sortItems = (items: string[]) => [...items].sort((a, b) => a.localeCompare(b));
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+};
+
+/** The answer's order of `items`; items it leaves out keep their presented order at the end. */
+export const answeredOrder = (value: string | undefined, items: string[]) => {
+  const answered = parseSelection(value).filter(item => items.includes(item));
+  return [...answered, ...items.filter(item => !answered.includes(item))];
+};
+
+/**
+ * Credit is the share of item pairs placed in the right relative order, so one step
+ * out of place costs a little rather than everything after it.
+ */
+export const gradeOrdering = (answer: string | undefined, correctAnswer: string): GradeResult => {
+  const correct = parseSelection(correctAnswer);
+  const given = parseSelection(answer);
+
+  if (given.length === 0) {
+    return { isCorrect: false, credit: 0, feedback: 'No order was given.' };
+  }
+
+  const position = new Map(given.map((item, index) => [item, index]));
+  let pairs = 0;
+  let inOrder = 0;
+  for (let i = 0; i < correct.length; i++) {
+    for (let j = i + 1; j < correct.length; j++) {
+      pairs++;
+      const first = position.get(correct[i]);
+      const second = position.get(correct[j]);
+      if (first !== undefined && second !== undefined && first < second) inOrder++;
+    }
+  }
+
+  const isCorrect = correct.length > 0 && correct.every((item, index) => given[index] === item);
+  if (isCorrect) return { isCorrect, credit: 1 };
+
+  const placed = correct.filter((item, index) => given[index] === item).length;
+  return {
+    isCorrect,
+    credit: pairs > 0 ? inOrder / pairs : 0,
+    feedback: `${placed} of ${correct.length} items in the right position.`
+  };
+};
+
+export const formatOrder = (value: string) => parseSelection(value).join(' → ');
+
+/** Returns a message describing what's missing, or null if the question can be graded. */
+export const validateOrdering = (correctAnswer: string): string | null => {
+  const items = parseSelection(correctAnswer).filter(item => item.trim());
+  if (items.length < 2) return 'An ordering question needs at least two items';
+  if (new Set(items).size !== items.length) return 'Each item must be different';
+  return null;
+};
+
+export const cleanOrdering = (correctAnswer: string) =>
+  formatSelection(parseSelection(correctAnswer).map(item => item.trim()).filter(Boolean));
@@ -0,0 +1,436 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { parseOptions } from './draw.ts';
+import { validateMatching } from './matching.ts';
+import { htmlToText } from './moodle-import.ts';
+import type { ImportedQuestion, ImportPreview, SkippedQuestion } from './moodle-import.ts';
+import { formatSelection, parseSelection } from './multi-select.ts';
+import { sortItems } from './ordering.ts';
+import type { AnswerConfig, QuestionType } from './types.ts';
+
+// IMS QTI 2.1 content packages: one assessmentItem file per question plus an imsmanifest.xml
+// listing them. Scoring uses the standard response processing templates where they fit, so
+// other systems grade the items the same way. Features QTI has no place for (units,
+// significant figures) go in classed spans in the item body, which other systems show as text.
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+const ITEM_RESOURCE_TYPE = 'imsqti_item_xmlv2p1';
+
+/** Question types that survive a round trip through QTI. */
+export const QTI_TYPES: QuestionType[] = ['mcq', 'multi', 'numeric', 'short', 'matching', 'ordering'];
+
+/** A question as stored in the quizzes table. */
+export interface ExportableQuestion {
+  id: string;
+  question: string;
+  type: QuestionType;
+  options: unknown;
+  correct_answer: string;
+  answer_config: AnswerConfig | null;
+  explanation: string | null;
+  points: number;
+}
+
+export interface QtiExport {
+  zip: Uint8Array;
+  exported: number;
+  skipped: SkippedQuestion[];
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) => text
+  .split(/\n\s*\n/)
+  .map(paragraph => `<p>${escapeXml(paragraph.trim()).replace(/\n/g, '<br/>')}</p>`)
+  .join('\n    ');
+
+const value = (text: string) => `<value>${escapeXml(text)}</value>`;
+
+const outcomes = (points: number) => `
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue>${value('0')}</defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+    <defaultValue>${value(String(points))}</defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>`;
+
+// Hidden only when FEEDBACK is set to EXPLANATION, which never happens, so it always shows after answering
+const explanationFeedback = (explanation: string | null) => explanation?.trim()
+  ? `\n  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="hide">\n    ${paragraphs(explanation)}\n  </modalFeedback>`
+  : '';
+
+const template = (name: 'match_correct' | 'map_response') => `<responseProcessing template="${TEMPLATES}/${name}"/>`;
+
+const mapping = (entries: { key: string; value: number; caseSensitive?: boolean }[], upperBound: number) =>
+  `<mapping lowerBound="0" upperBound="${upperBound}" defaultValue="0">
+      ${entries.map(entry =>
+        `<mapEntry mapKey="${escapeXml(entry.key)}" mappedValue="${entry.value}"${entry.caseSensitive === undefined ? '' : ` caseSensitive="${entry.caseSensitive}"`}/>`
+      ).join('\n      ')}
+    </mapping>`;
+
+interface ItemParts {
+  response: string;
+  body: string;
+  processing: string;
+}
+
+const choiceIds = (items: string[], prefix: string) => items.map((_, index) => `${prefix}${index + 1}`);
+
+const exportParts = (question: ExportableQuestion): ItemParts | string => {
+  const config = question.answer_config ?? {};
+  const points = Number(question.points) || 1;
+  const options = parseOptions(question.options);
+
+  switch (question.type) {
+    case 'mcq':
+    case 'multi': {
+      const ids = choiceIds(options, 'C');
+      const correct = question.type === 'mcq' ? [question.correct_answer] : parseSelection(question.correct_answer);
+      const correctIds = correct.map(answer => ids[options.indexOf(answer)]).filter(Boolean);
+      if (correctIds.length === 0) return 'The correct answer is not one of the options';
+
+      // Multi-select partial credit becomes a mapping; wrong choices cost the same as right ones earn
+      const perOption = points / correctIds.length;
+      const scoring = question.type === 'multi' ? config.scoring ?? 'all_or_nothing' : 'all_or_nothing';
+      const mapped = scoring === 'all_or_nothing' ? '' : `\n    ${mapping(ids.map(id => ({
+        key: id,
+        value: correctIds.includes(id) ? perOption : scoring === 'right_minus_wrong' ? -perOption : 0
+      })), points)}`;
+
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="${question.type === 'mcq' ? 'single' : 'multiple'}" baseType="identifier">
+    <correctResponse>${correctIds.map(value).join('')}</correctResponse>${mapped}
+  </responseDeclaration>`,
+        body: `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${question.type === 'mcq' ? 1 : 0}">
+      ${options.map((option, index) => `<simpleChoice identifier="${ids[index]}">${escapeXml(option)}</simpleChoice>`).join('\n      ')}
+    </choiceInteraction>`,
+        processing: template(scoring === 'all_or_nothing' ? 'match_correct' : 'map_response')
+      };
+    }
+
+    case 'numeric': {
+      const tolerance = config.tolerance == null
+        ? 'toleranceMode="exact"'
+        : `toleranceMode="${config.tolerance_type ?? 'relative'}" tolerance="${config.tolerance} ${config.tolerance}"`;
+      const format = [
+        config.unit ? `Answer in <span class="unit">${escapeXml(config.unit)}</span>.` : '',
+        config.sig_figs ? `Give <span class="sig-figs">${config.sig_figs}</span> significant figures.` : ''
+      ].filter(Boolean).join(' ');
+
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">
+    <correctResponse>${value(question.correct_answer)}</correctResponse>
+  </responseDeclaration>`,
+        body: `<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>${format ? `\n    <p class="answer-format">${format}</p>` : ''}`,
+        processing: `<responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <equal ${tolerance}>
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </equal>
+        <setOutcomeValue identifier="SCORE">
+          <variable identifier="MAXSCORE"/>
+        </setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+  </responseProcessing>`
+      };
+    }
+
+    case 'short': {
+      // A mapping only lists exact answers, so patterns and near-miss spellings would be lost
+      if (config.patterns?.some(pattern => pattern.trim())) return 'Answer patterns have no QTI equivalent';
+      if (config.fuzzy_threshold) return 'Accepting near-miss spellings has no QTI equivalent';
+      const accepted = [question.correct_answer, ...(config.accepted_answers ?? [])].filter(answer => answer.trim());
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse>${value(question.correct_answer)}</correctResponse>
+    ${mapping(accepted.map(answer => ({ key: answer, value: points, caseSensitive: !!config.case_sensitive })), points)}
+  </responseDeclaration>`,
+        body: `<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`,
+        processing: template('map_response')
+      };
+    }
+
+    case 'matching': {
+      const prompts = config.prompts ?? [];
+      const matches = parseSelection(question.correct_answer);
+      const promptIds = choiceIds(prompts, 'P');
+      const optionIds = choiceIds(options, 'M');
+      if (matches.some(match => !options.includes(match))) return 'A match is not one of the options';
+      const pairs = prompts.map((_, index) => `${promptIds[index]} ${optionIds[options.indexOf(matches[index])]}`);
+
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">
+    <correctResponse>${pairs.map(value).join('')}</correctResponse>
+    ${mapping(pairs.map(pair => ({ key: pair, value: points / pairs.length })), points)}
+  </responseDeclaration>`,
+        body: `<matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${prompts.length}">
+      <simpleMatchSet>
+        ${prompts.map((prompt, index) => `<simpleAssociableChoice identifier="${promptIds[index]}" matchMax="1">${escapeXml(prompt)}</simpleAssociableChoice>`).join('\n        ')}
+      </simpleMatchSet>
+      <simpleMatchSet>
+        ${options.map((option, index) => `<simpleAssociableChoice identifier="${optionIds[index]}" matchMax="${prompts.length}">${escapeXml(option)}</simpleAssociableChoice>`).join('\n        ')}
+      </simpleMatchSet>
+    </matchInteraction>`,
+        processing: template('map_response')
+      };
+    }
+
+    case 'ordering': {
+      const items = parseSelection(question.correct_answer);
+      const ids = choiceIds(items, 'O');
+      // Listed alphabetically so the markup doesn't give the order away
+      const listed = sortItems(items);
+
+      return {
+        response: `<responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">
+    <correctResponse>${ids.map(value).join('')}</correctResponse>
+  </responseDeclaration>`,
+        body: `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">
+      ${listed.map(item => `<simpleChoice identifier="${ids[items.indexOf(item)]}">${escapeXml(item)}</simpleChoice>`).join('\n      ')}
+    </orderInteraction>`,
+        processing: template('match_correct')
+      };
+    }
+
+    default:
+      return 'Calculated and multi-part questions have no QTI equivalent';
+  }
+};
+
+// QTI identifiers can't start with a digit, which UUIDs may
+const itemIdentifier = (question: ExportableQuestion) => `Q_${question.id}`;
+
+const itemXml = (question: ExportableQuestion, parts: ItemParts, title: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${itemIdentifier(question)}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+  ${parts.response}${outcomes(Number(question.points) || 1)}
+  <itemBody>
+    ${paragraphs(question.question)}
+    ${parts.body}
+  </itemBody>
+  ${parts.processing}${explanationFeedback(question.explanation)}
+</assessmentItem>
+`;
+
+const manifestXml = (items: { identifier: string; href: string }[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST_${Date.now()}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    ${items.map(item => `<resource identifier="${item.identifier}" type="${ITEM_RESOURCE_TYPE}" href="${item.href}">
+      <file href="${item.href}"/>
+    </resource>`).join('\n    ')}
+  </resources>
+</manifest>
+`;
+
+/** A zipped QTI 2.1 package of the questions, in order. */
+export const exportQtiPackage = (title: string, questions: ExportableQuestion[]): QtiExport => {
+  const files: Record<string, Uint8Array> = {};
+  const items: { identifier: string; href: string }[] = [];
+  const skipped: SkippedQuestion[] = [];
+
+  questions.forEach((question, index) => {
+    const name = `${title} ${index + 1}`;
+    const parts = exportParts(question);
+    if (typeof parts === 'string') {
+      skipped.push({ name: `Question ${index + 1}`, reason: parts });
+      return;
+    }
+
+    const href = `items/${itemIdentifier(question)}.xml`;
+    files[href] = strToU8(itemXml(question, parts, name));
+    items.push({ identifier: itemIdentifier(question), href });
+  });
+
+  files['imsmanifest.xml'] = strToU8(manifestXml(items));
+  return { zip: zipSync(files), exported: items.length, skipped };
+};
+
+// Import
+
+const children = (element: Element | null | undefined, name: string) =>
+  element ? Array.from(element.children).filter(child => child.localName === name) : [];
+
+const descendant = (element: Element | Document, name: string) =>
+  element.getElementsByTagNameNS('*', name)[0] as Element | undefined;
+
+const descendants = (element: Element | Document, name: string) =>
+  Array.from(element.getElementsByTagNameNS('*', name));
+
+const elementText = (element: Element | undefined) => element ? htmlToText(element.innerHTML) : '';
+
+const values = (element: Element | undefined) => children(element, 'value').map(v => v.textContent?.trim() ?? '');
+
+// The question text: the item body without its interactions and the answer format note
+const bodyText = (body: Element) => {
+  const copy = body.cloneNode(true) as Element;
+  [
+    ...descendants(copy, 'choiceInteraction'),
+    ...descendants(copy, 'matchInteraction'),
+    ...descendants(copy, 'orderInteraction'),
+    ...descendants(copy, 'textEntryInteraction'),
+    ...Array.from(copy.querySelectorAll('.answer-format'))
+  ].forEach(element => element.remove());
+  return elementText(copy);
+};
+
+const importItem = (doc: Document, fallbackName: string): ImportedQuestion | SkippedQuestion => {
+  const item = doc.documentElement;
+  const name = item.getAttribute('title') || fallbackName;
+  const body = descendant(doc, 'itemBody');
+  if (item.localName !== 'assessmentItem' || !body) return { name, reason: 'Not a QTI assessment item' };
+
+  const response = descendants(doc, 'responseDeclaration').find(d => d.getAttribute('identifier') === 'RESPONSE')
+    ?? descendant(doc, 'responseDeclaration');
+  const correct = values(descendant(response ?? doc, 'correctResponse'));
+  const mapEntries = descendants(response ?? doc, 'mapEntry');
+  const maxScore = Number(values(descendants(doc, 'outcomeDeclaration')
+    .find(d => d.getAttribute('identifier') === 'MAXSCORE')
+    ?.getElementsByTagNameNS('*', 'defaultValue')[0])[0]);
+  const explanation = descendants(doc, 'modalFeedback').map(elementText).filter(Boolean).join('\n\n') || null;
+
+  const base = {
+    name,
+    question: bodyText(body),
+    explanation,
+    points: maxScore > 0 ? maxScore : 1,
+    tags: [],
+    warnings: []
+  };
+
+  const choiceText = (interaction: Element, id: string) =>
+    elementText(descendants(interaction, 'simpleChoice').find(c => c.getAttribute('identifier') === id)
+      ?? descendants(interaction, 'simpleAssociableChoice').find(c => c.getAttribute('identifier') === id));
+
+  const choice = descendant(body, 'choiceInteraction');
+  if (choice) {
+    const ids = descendants(choice, 'simpleChoice').map(c => c.getAttribute('identifier') ?? '');
+    const options = ids.map(id => choiceText(choice, id));
+    const answers = correct.map(id => choiceText(choice, id));
+    if (answers.length === 0) return { name, reason: 'No correct choice is given' };
+
+    if (choice.getAttribute('maxChoices') === '1' && answers.length === 1) {
+      return { ...base, type: 'mcq', options, correct_answer: answers[0], answer_config: null };
+    }
+
+    const mappedValues = mapEntries.map(entry => Number(entry.getAttribute('mappedValue')));
+    return {
+      ...base,
+      type: 'multi',
+      options,
+      correct_answer: formatSelection(answers),
+      answer_config: {
+        scoring: mapEntries.length === 0
+          ? 'all_or_nothing'
+          : mappedValues.some(v => v < 0) ? 'right_minus_wrong' : 'proportional'
+      }
+    };
+  }
+
+  const match = descendant(body, 'matchInteraction');
+  if (match) {
+    const [promptSet, optionSet] = children(match, 'simpleMatchSet');
+    const promptIds = children(promptSet, 'simpleAssociableChoice').map(c => c.getAttribute('identifier') ?? '');
+    const optionIds = children(optionSet, 'simpleAssociableChoice').map(c => c.getAttribute('identifier') ?? '');
+    const pairs = new Map(correct.map(pair => pair.split(/\s+/) as [string, string]));
+    const prompts = promptIds.map(id => choiceText(match, id));
+    const correctAnswer = formatSelection(promptIds.map(id => choiceText(match, pairs.get(id) ?? '')));
+    const problem = validateMatching(prompts, correctAnswer);
+    if (problem) return { name, reason: problem };
+
+    return {
+      ...base,
+      type: 'matching',
+      options: sortItems(optionIds.map(id => choiceText(match, id))),
+      correct_answer: correctAnswer,
+      answer_config: { prompts }
+    };
+  }
+
+  const order = descendant(body, 'orderInteraction');
+  if (order) {
+    const items = correct.map(id => choiceText(order, id));
+    if (items.length < 2) return { name, reason: 'No correct order is given' };
+    return { ...base, type: 'ordering', options: sortItems(items), correct_answer: formatSelection(items), answer_config: null };
+  }
+
+  const textEntry = descendant(body, 'textEntryInteraction');
+  if (textEntry && correct.length > 0) {
+    if (response?.getAttribute('baseType') === 'float' || response?.getAttribute('baseType') === 'integer') {
+      const equal = descendant(doc, 'equal');
+      const mode = equal?.getAttribute('toleranceMode');
+      const tolerance = Number(equal?.getAttribute('tolerance')?.trim().split(/\s+/)[0]);
+      const unit = body.querySelector('.unit')?.textContent?.trim();
+      const sigFigs = Number(body.querySelector('.sig-figs')?.textContent);
+
+      return {
+        ...base,
+        type: 'numeric',
+        options: null,
+        correct_answer: correct[0],
+        answer_config: {
+          ...(mode === 'absolute' || mode === 'relative' ? { tolerance_type: mode, tolerance: Number.isFinite(tolerance) ? tolerance : 0 } : {}),
+          ...(unit ? { unit } : {}),
+          ...(sigFigs > 0 ? { sig_figs: sigFigs } : {})
+        }
+      };
+    }
+
+    const accepted = mapEntries
+      .filter(entry => Number(entry.getAttribute('mappedValue')) > 0)
+      .map(entry => entry.getAttribute('mapKey') ?? '')
+      .filter(answer => answer && answer !== correct[0]);
+    return {
+      ...base,
+      type: 'short',
+      options: null,
+      correct_answer: correct[0],
+      answer_config: {
+        accepted_answers: accepted,
+        case_sensitive: mapEntries.some(entry => entry.getAttribute('caseSensitive') === 'true')
+      }
+    };
+  }
+
+  const interaction = Array.from(body.getElementsByTagName('*')).find(element => element.localName.endsWith('Interaction'));
+  return { name, reason: interaction ? `${interaction.localName} items are not supported` : 'Has no supported interaction' };
+};
+
+/** Reads a zipped QTI 2.1 package, taking its items in the order the manifest lists them. */
+export const parseQtiPackage = (zip: Uint8Array): ImportPreview => {
+  const files = unzipSync(zip);
+  const parse = (path: string) => new DOMParser().parseFromString(strFromU8(files[path]), 'application/xml');
+
+  const manifest = files['imsmanifest.xml'] ? parse('imsmanifest.xml') : null;
+  const hrefs = manifest
+    ? descendants(manifest, 'resource')
+        .filter(resource => resource.getAttribute('type')?.startsWith('imsqti_item'))
+        .map(resource => resource.getAttribute('href') ?? '')
+        .filter(href => files[href])
+    : Object.keys(files).filter(path => path.endsWith('.xml'));
+  if (hrefs.length === 0) throw new Error('No QTI items in this package');
+
+  const questions: ImportedQuestion[] = [];
+  const skipped: SkippedQuestion[] = [];
+  hrefs.forEach((href, index) => {
+    const doc = parse(href);
+    const result = doc.querySelector('parsererror')
+      ? { name: href, reason: 'Not valid XML' }
+      : importItem(doc, `Item ${index + 1}`);
+    if ('reason' in result) skipped.push(result);
+    else questions.push(result);
+  });
+
+  return { format: 'qti', questions, skipped };
+};
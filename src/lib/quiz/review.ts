@@ -0,0 +1,33 @@
+import type { ReviewSchedule } from './types.ts';
+
+// SM-2 spaced repetition: each review is rated for recall quality from 0 to 5, and
+// a pass (3 or more) lengthens the interval by the item's ease factor
+
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Recall quality from the credit a review answer earned. */
+export const reviewQuality = (credit: number) =>
+  credit >= 1 ? 5 : credit >= 0.75 ? 3 : credit > 0 ? 2 : 1;
+
+/** The schedule after a review of the given quality, with the next review due `interval_days` from now. */
+export const scheduleReview = (item: ReviewSchedule, quality: number, now: Date = new Date()): ReviewSchedule => {
+  const passed = quality >= 3;
+  const repetitions = passed ? item.repetitions + 1 : 0;
+  const easeFactor = Number(item.ease_factor);
+  const intervalDays = !passed || repetitions === 1
+    ? 1
+    : repetitions === 2 ? 6 : Math.round(item.interval_days * easeFactor);
+  const miss = 5 - quality;
+
+  return {
+    ease_factor: Math.max(MIN_EASE_FACTOR, Math.round((easeFactor + 0.1 - miss * (0.08 + miss * 0.02)) * 100) / 100),
+    interval_days: intervalDays,
+    repetitions,
+    lapses: item.lapses + (passed ? 0 : 1),
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString()
+  };
+};
+
+export const isDue = (item: Pick<ReviewSchedule, 'due_at'>, now: Date = new Date()) =>
+  new Date(item.due_at) <= now;
@@ -0,0 +1,62 @@
+import { generateParams, questionSeed, usesVariables } from './calculated.ts';
+import { formatCorrectAnswer, gradeAnswer } from './grading.ts';
+import type { GradableQuestion, QuestionFeedback, QuestionHint, QuestionParams } from './types.ts';
+
+/** A question as graded within an attempt: its hints cost points and its values come from the attempt seed. */
+export interface ScoredQuestion extends GradableQuestion {
+  id: string;
+  points?: number | null;
+  hints?: Pick<QuestionHint, 'penalty'>[] | null;
+  explanation?: string | null;
+}
+
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+export const pointsAwarded = (credit: number, points: number) => roundPoints(credit * points);
+
+/** Share of a question's points deducted for the first `used` hints, capped at all of them. */
+export const hintPenalty = (hints: Pick<QuestionHint, 'penalty'>[] | null | undefined, used: number) => {
+  const total = (hints ?? []).slice(0, used).reduce((sum, hint) => sum + (Number(hint.penalty) || 0), 0);
+  return Math.min(1, Math.max(0, total / 100));
+};
+
+/** Regenerates the values the student was shown from the attempt seed. */
+export const paramsFor = (quiz: ScoredQuestion, seed: string): QuestionParams | null =>
+  usesVariables(quiz.type)
+    ? generateParams(quiz.answer_config?.variables, questionSeed(seed, quiz.id))
+    : null;
+
+// Revealed hints are deducted from the credit the answer earned
+export const gradeQuestion = (quiz: ScoredQuestion, answer: string | undefined, seed: string, hintsUsed = 0): QuestionFeedback => {
+  const params = paramsFor(quiz, seed) ?? {};
+  const { isCorrect, credit: answerCredit, feedback, parts } = gradeAnswer(quiz, answer, params);
+  const penalty = hintPenalty(quiz.hints, hintsUsed);
+  const credit = Math.max(0, answerCredit - penalty);
+  const points = Number(quiz.points ?? 1);
+  return {
+    quiz_id: quiz.id,
+    is_correct: isCorrect,
+    credit,
+    points_awarded: pointsAwarded(credit, points),
+    points_possible: points,
+    feedback,
+    correct_answer: formatCorrectAnswer(quiz, params),
+    explanation: quiz.explanation,
+    parts,
+    hints_used: hintsUsed,
+    hint_penalty: penalty
+  };
+};
+
+/** Attempt totals; the score is the percentage of available points earned. */
+export const summarizeResults = (results: Pick<QuestionFeedback, 'is_correct' | 'points_awarded' | 'points_possible'>[]) => {
+  const pointsEarned = roundPoints(results.reduce((sum, r) => sum + r.points_awarded, 0));
+  const pointsPossible = roundPoints(results.reduce((sum, r) => sum + r.points_possible, 0));
+
+  return {
+    points_earned: pointsEarned,
+    points_possible: pointsPossible,
+    correct_count: results.filter(r => r.is_correct).length,
+    score: pointsPossible > 0 ? Math.round((pointsEarned / pointsPossible) * 100) : 0
+  };
+};
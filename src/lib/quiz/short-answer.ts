@@ -0,0 +1,75 @@
+import type { GradeResult, ShortAnswerConfig } from './types.ts';
+
+export const normalizeAnswer = (answer: string, caseSensitive = false) => {
+  const normalized = answer
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return caseSensitive ? normalized : normalized.toLowerCase();
+};
+
+export const levenshteinDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+export const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest;
+};
+
+const matchesPattern = (answer: string, pattern: string, caseSensitive: boolean) => {
+  try {
+    return new RegExp(pattern, caseSensitive ? 'u' : 'iu').test(answer);
+  } catch {
+    // Invalid author-supplied patterns never match rather than failing the whole quiz
+    return false;
+  }
+};
+
+export const gradeShortAnswer = (
+  answer: string | undefined,
+  correctAnswer: string,
+  config: ShortAnswerConfig = {}
+): GradeResult => {
+  const { accepted_answers = [], patterns = [], case_sensitive = false, fuzzy_threshold } = config;
+  const raw = answer?.trim() ?? '';
+  if (!raw) {
+    return { isCorrect: false, feedback: 'No answer was given.' };
+  }
+
+  const given = normalizeAnswer(raw, case_sensitive);
+  const accepted = [correctAnswer, ...accepted_answers]
+    .map(candidate => normalizeAnswer(candidate, case_sensitive))
+    .filter(Boolean);
+
+  if (accepted.includes(given)) {
+    return { isCorrect: true };
+  }
+
+  if (patterns.some(pattern => pattern.trim() && matchesPattern(raw, pattern.trim(), case_sensitive))) {
+    return { isCorrect: true };
+  }
+
+  if (fuzzy_threshold) {
+    const closest = accepted.find(candidate => similarity(given, candidate) >= fuzzy_threshold);
+    if (closest) {
+      return { isCorrect: true, feedback: `Accepted, but check your spelling: "${correctAnswer}".` };
+    }
+  }
+
+  return { isCorrect: false };
+};
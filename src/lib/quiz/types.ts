@@ -0,0 +1,261 @@
+export type QuestionType = 'mcq' | 'multi' | 'numeric' | 'short' | 'calculated' | 'multipart' | 'matching' | 'ordering';
+
+/** Parts of a multi-part question can be any single-answer type of question. */
+export type PartType = Exclude<QuestionType, 'multipart' | 'matching' | 'ordering'>;
+
+export type ToleranceType = 'absolute' | 'relative';
+
+export interface NumericAnswerConfig {
+  /** Unit the correct answer is expressed in; omitted for dimensionless answers. */
+  unit?: string;
+  tolerance?: number;
+  /** Relative tolerances are expressed as a percentage of the correct value. */
+  tolerance_type?: ToleranceType;
+  sig_figs?: number;
+}
+
+export interface ShortAnswerConfig {
+  /** Alternatives accepted in addition to the correct answer, e.g. "Nu" for "Nusselt number". */
+  accepted_answers?: string[];
+  /** Regular expressions tested against the raw answer. */
+  patterns?: string[];
+  case_sensitive?: boolean;
+  /** Minimum similarity (0-1) for a near-miss spelling to still be accepted. */
+  fuzzy_threshold?: number;
+}
+
+/** A value drawn at random for each student, referenced as {name} in the question and the formula. */
+export interface QuestionVariable {
+  name: string;
+  min: number;
+  max: number;
+  /** Decimal places the drawn value is rounded to. */
+  decimals?: number;
+}
+
+/**
+ * Calculated questions keep their formula in correct_answer and are otherwise
+ * graded like numeric questions, so they share the unit and tolerance settings.
+ */
+export interface CalculatedAnswerConfig extends NumericAnswerConfig {
+  variables?: QuestionVariable[];
+}
+
+/**
+ * How a multi-select answer earns partial credit:
+ * - all_or_nothing: full credit only for exactly the correct options
+ * - proportional: the share of options marked correctly (chosen if correct, left if not)
+ * - right_minus_wrong: correct choices minus incorrect choices, over the number of correct options
+ */
+export type MultiSelectScoring = 'all_or_nothing' | 'proportional' | 'right_minus_wrong';
+
+export interface MultiSelectConfig {
+  scoring?: MultiSelectScoring;
+}
+
+/**
+ * One step of a multi-part problem, graded like a standalone question of its type.
+ * Formulas in calculated parts can use the question's variables and the values of
+ * earlier numeric parts, referred to as part1, part2, ...
+ */
+export interface QuestionPart {
+  prompt: string;
+  type: PartType;
+  correct_answer: string;
+  answer_config?: AnswerConfig;
+  options?: string[];
+  /** Relative share of the question's points; parts are weighted equally by default. */
+  weight?: number;
+  /**
+   * Calculated parts only: also accept the answer that follows from the student's own
+   * earlier answers, so one mistake isn't penalized again in every later part.
+   */
+  carry_forward?: boolean;
+}
+
+/** Multi-part questions share their variables across parts, so they keep them alongside the parts. */
+export interface MultiPartConfig {
+  variables?: QuestionVariable[];
+  parts?: QuestionPart[];
+}
+
+/**
+ * Matching questions pair each prompt with one of the question's options; the
+ * matches are in correct_answer and any options left over are distractors.
+ */
+export interface MatchingConfig {
+  prompts?: string[];
+}
+
+export type AnswerConfig = NumericAnswerConfig & ShortAnswerConfig & CalculatedAnswerConfig & MultiSelectConfig & MultiPartConfig & MatchingConfig;
+
+/** Variable values generated for one student's copy of a calculated question. */
+export type QuestionParams = Record<string, number>;
+
+export interface GradableQuestion {
+  type: QuestionType;
+  correct_answer: string;
+  answer_config?: AnswerConfig | null;
+  options?: unknown;
+}
+
+/** Result for one part of a multi-part question. */
+export interface PartFeedback {
+  is_correct: boolean;
+  credit: number;
+  /** Share of the question's points the part is worth, 0-1. */
+  weight: number;
+  feedback?: string;
+  correct_answer: string;
+  /** Credited for following on correctly from the student's own earlier answers. */
+  carried_forward?: boolean;
+}
+
+export interface GradeResult {
+  isCorrect: boolean;
+  /** Share of the question's points earned, 0-1. Graders without partial credit leave it out. */
+  credit?: number;
+  feedback?: string;
+  parts?: PartFeedback[];
+}
+
+/** Help a student can reveal while answering, at the cost of some of the question's points. */
+export interface QuestionHint {
+  text: string;
+  /** Percentage of the question's points deducted once the hint is revealed. */
+  penalty: number;
+}
+
+/** Per-question result returned by the grade-quiz edge function. */
+export interface QuestionFeedback {
+  quiz_id: string;
+  is_correct: boolean;
+  credit: number;
+  points_awarded: number;
+  points_possible: number;
+  feedback?: string;
+  correct_answer: string;
+  explanation?: string | null;
+  parts?: PartFeedback[];
+  hints_used: number;
+  /** Share of the question's points deducted for hints, 0-1. */
+  hint_penalty: number;
+}
+
+/**
+ * One question of a submitted attempt as the grade-quiz function replays it for review.
+ * Questions removed since the attempt keep the student's answer and result only.
+ */
+export interface ReviewedQuestion {
+  quiz_id: string | null;
+  position: number;
+  /** With the values the student was shown filled in. */
+  question: string | null;
+  type: QuestionType | null;
+  answer_config: AnswerConfig | null;
+  /** In the order the student saw them. */
+  options: string[];
+  part_prompts: string[];
+  answer: string;
+  is_correct: boolean;
+  credit: number;
+  points_awarded: number;
+  points_possible: number;
+  correct_answer: string | null;
+  explanation: string | null;
+  parts: PartFeedback[] | null;
+  hints_used: number;
+  hint_penalty: number;
+  time_spent_ms: number | null;
+}
+
+/** Where a question in a student's review queue stands; see review_items. */
+export interface ReviewSchedule {
+  ease_factor: number;
+  interval_days: number;
+  /** Reviews passed in a row since the question was last missed. */
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+/** Draws `count` questions from the module's bank, optionally only of one difficulty or tag. */
+export interface DrawRule {
+  count: number;
+  difficulty?: Difficulty;
+  tag?: string;
+}
+
+/**
+ * Practice quizzes give feedback on each answer and don't count toward grades. Exams
+ * give none until the attempt is submitted, or until the release date if one is set.
+ */
+export type QuizMode = 'practice' | 'exam';
+
+/** Which of a student's attempts at a module counts toward their grade. */
+export type ScorePolicy = 'best' | 'latest' | 'average';
+
+/** Where a student stands against a module's attempt limits. */
+export interface AttemptAllowance {
+  attempts_used: number;
+  max_attempts: number | null;
+  /** When the cooldown after the last attempt ends, if it hasn't yet. */
+  next_attempt_at: string | null;
+  can_start: boolean;
+}
+
+/** Per-module quiz options stored in the quiz_settings table. */
+export interface QuizSettings {
+  mode: QuizMode;
+  /** Null allows unlimited attempts. */
+  max_attempts: number | null;
+  /** Minimum wait after submitting before the next attempt can start; null for none. */
+  cooldown_minutes: number | null;
+  score_policy: ScorePolicy;
+  /** Exams only: when scores and answers are shown to students; null shows them on submission. */
+  feedback_release_at: string | null;
+  /** Null for untimed quizzes; students with accommodations get a multiple of this. */
+  time_limit_minutes: number | null;
+  /** Applied in order without repeating questions; empty means every question is asked. */
+  draw_rules: DrawRule[];
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  /** Pick each question to suit the student's estimated ability instead of asking a fixed set. */
+  adaptive: boolean;
+  /** Adaptive quizzes stop once the ability estimate's standard error is at most this. */
+  adaptive_target_se: number;
+  /** Adaptive quizzes stop after this many questions; null allows the whole pool. */
+  adaptive_max_questions: number | null;
+}
+
+/**
+ * The questions an attempt drew, in the order shown, and the order each multiple
+ * choice question's options were shown in (indices into the authored options).
+ */
+export interface AttemptLayout {
+  question_ids: string[];
+  option_orders: Record<string, number[]>;
+  /** Adaptive attempts only: `question_ids` grows one question at a time from `pool`. */
+  adaptive?: AdaptiveState;
+}
+
+export interface AdaptiveState {
+  /** Every question the attempt may ask, as drawn. */
+  pool: string[];
+  max_questions: number;
+  target_standard_error: number;
+  /** Set once the stopping rule is met and no more questions will be added. */
+  finished: boolean;
+  ability: number;
+  standard_error: number;
+}
+
+/** Autosaved state of an in-progress attempt, kept on the session and in localStorage. */
+export interface QuizDraft {
+  answers: Record<string, string>;
+  time_spent: Record<string, number>;
+  /** Index of the question the student was on. */
+  position: number;
+}
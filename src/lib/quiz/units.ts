@@ -0,0 +1,438 @@
+export interface UnitDefinition {
+  symbol: string;
+  /** Multiplier converting a value in this unit to the quantity's SI unit. */
+  factor: number;
+  /** Added after scaling; only non-zero for absolute temperature scales. */
+  offset?: number;
+}
+
+export interface Quantity {
+  id: string;
+  name: string;
+  units: UnitDefinition[];
+}
+
+// The first unit of each quantity is its SI unit (factor 1)
+export const QUANTITIES: Quantity[] = [
+  {
+    id: 'heat_transfer_coefficient',
+    name: 'Heat transfer coefficient',
+    units: [
+      { symbol: 'W/m²·K', factor: 1 },
+      { symbol: 'W/m²·°C', factor: 1 },
+      { symbol: 'kW/m²·K', factor: 1000 },
+      { symbol: 'BTU/h·ft²·°F', factor: 5.678263 },
+      { symbol: 'cal/s·cm²·°C', factor: 41868 },
+    ],
+  },
+  {
+    id: 'thermal_conductivity',
+    name: 'Thermal conductivity',
+    units: [
+      { symbol: 'W/m·K', factor: 1 },
+      { symbol: 'W/m·°C', factor: 1 },
+      { symbol: 'BTU/h·ft·°F', factor: 1.730735 },
+      { symbol: 'cal/s·cm·°C', factor: 418.68 },
+    ],
+  },
+  {
+    id: 'heat_flux',
+    name: 'Heat flux',
+    units: [
+      { symbol: 'W/m²', factor: 1 },
+      { symbol: 'kW/m²', factor: 1000 },
+      { symbol: 'BTU/h·ft²', factor: 3.154591 },
+    ],
+  },
+  {
+    id: 'power',
+    name: 'Power / heat rate',
+    units: [
+      { symbol: 'W', factor: 1 },
+      { symbol: 'kW', factor: 1000 },
+      { symbol: 'J/s', factor: 1 },
+      { symbol: 'BTU/h', factor: 0.29307107 },
+    ],
+  },
+  {
+    id: 'energy',
+    name: 'Energy',
+    units: [
+      { symbol: 'J', factor: 1 },
+      { symbol: 'kJ', factor: 1000 },
+      { symbol: 'cal', factor: 4.1868 },
+      { symbol: 'kcal', factor: 4186.8 },
+      { symbol: 'BTU', factor: 1055.056 },
+    ],
+  },
+  {
+    id: 'temperature',
+    name: 'Temperature',
+    units: [
+      { symbol: 'K', factor: 1 },
+      { symbol: '°C', factor: 1, offset: 273.15 },
+      { symbol: '°F', factor: 5 / 9, offset: 459.67 * 5 / 9 },
+      { symbol: '°R', factor: 5 / 9 },
+    ],
+  },
+  {
+    id: 'length',
+    name: 'Length',
+    units: [
+      { symbol: 'm', factor: 1 },
+      { symbol: 'cm', factor: 0.01 },
+      { symbol: 'mm', factor: 0.001 },
+      { symbol: 'ft', factor: 0.3048 },
+      { symbol: 'in', factor: 0.0254 },
+    ],
+  },
+  {
+    id: 'velocity',
+    name: 'Velocity / mass transfer coefficient',
+    units: [
+      { symbol: 'm/s', factor: 1 },
+      { symbol: 'cm/s', factor: 0.01 },
+      { symbol: 'ft/s', factor: 0.3048 },
+      { symbol: 'ft/h', factor: 0.3048 / 3600 },
+    ],
+  },
+  {
+    id: 'dynamic_viscosity',
+    name: 'Dynamic viscosity',
+    units: [
+      { symbol: 'Pa·s', factor: 1 },
+      { symbol: 'cP', factor: 0.001 },
+      { symbol: 'P', factor: 0.1 },
+      { symbol: 'lbm/ft·s', factor: 1.488164 },
+    ],
+  },
+  {
+    id: 'diffusivity',
+    name: 'Diffusivity / kinematic viscosity',
+    units: [
+      { symbol: 'm²/s', factor: 1 },
+      { symbol: 'cm²/s', factor: 1e-4 },
+      { symbol: 'cSt', factor: 1e-6 },
+      { symbol: 'ft²/s', factor: 0.09290304 },
+      { symbol: 'ft²/h', factor: 0.09290304 / 3600 },
+    ],
+  },
+  {
+    id: 'pressure',
+    name: 'Pressure',
+    units: [
+      { symbol: 'Pa', factor: 1 },
+      { symbol: 'kPa', factor: 1000 },
+      { symbol: 'MPa', factor: 1e6 },
+      { symbol: 'bar', factor: 1e5 },
+      { symbol: 'atm', factor: 101325 },
+      { symbol: 'psi', factor: 6894.757 },
+    ],
+  },
+  {
+    id: 'density',
+    name: 'Density',
+    units: [
+      { symbol: 'kg/m³', factor: 1 },
+      { symbol: 'g/cm³', factor: 1000 },
+      { symbol: 'lbm/ft³', factor: 16.01846 },
+    ],
+  },
+  {
+    id: 'mass_flow_rate',
+    name: 'Mass flow rate',
+    units: [
+      { symbol: 'kg/s', factor: 1 },
+      { symbol: 'g/s', factor: 0.001 },
+      { symbol: 'kg/h', factor: 1 / 3600 },
+      { symbol: 'lbm/s', factor: 0.4535924 },
+      { symbol: 'lbm/h', factor: 0.4535924 / 3600 },
+    ],
+  },
+];
+
+// Dimensions are exponents of mass, length, time, temperature and amount of substance
+export type Dimensions = [number, number, number, number, number];
+
+const DIMENSIONLESS: Dimensions = [0, 0, 0, 0, 0];
+
+/** A unit expression resolved to SI, e.g. "BTU/h·ft²·°F" or "kJ/(kg K)". */
+export interface ParsedUnit {
+  factor: number;
+  dimensions: Dimensions;
+  /** Only set for a lone absolute temperature unit such as °C. */
+  offset?: number;
+}
+
+interface BaseUnit {
+  factor: number;
+  dimensions: Dimensions;
+  offset?: number;
+  /** Whether SI prefixes apply, as in kW or cP. */
+  prefixable?: boolean;
+}
+
+const dims = (mass: number, length: number, time: number, temperature = 0, amount = 0): Dimensions =>
+  [mass, length, time, temperature, amount];
+
+const ENERGY = dims(1, 2, -2);
+const PRESSURE = dims(1, -1, -2);
+const RANKINE = 5 / 9;
+
+// SI and US customary units found in transport phenomena problems. Inside compound
+// units, °C and °F are temperature differences, so W/m²·°C equals W/m²·K.
+const BASE_UNITS: Record<string, BaseUnit> = {
+  m: { factor: 1, dimensions: dims(0, 1, 0), prefixable: true },
+  ft: { factor: 0.3048, dimensions: dims(0, 1, 0) },
+  in: { factor: 0.0254, dimensions: dims(0, 1, 0) },
+  yd: { factor: 0.9144, dimensions: dims(0, 1, 0) },
+  mi: { factor: 1609.344, dimensions: dims(0, 1, 0) },
+  g: { factor: 0.001, dimensions: dims(1, 0, 0), prefixable: true },
+  lb: { factor: 0.45359237, dimensions: dims(1, 0, 0) },
+  lbm: { factor: 0.45359237, dimensions: dims(1, 0, 0) },
+  slug: { factor: 14.593903, dimensions: dims(1, 0, 0) },
+  s: { factor: 1, dimensions: dims(0, 0, 1), prefixable: true },
+  sec: { factor: 1, dimensions: dims(0, 0, 1) },
+  min: { factor: 60, dimensions: dims(0, 0, 1) },
+  h: { factor: 3600, dimensions: dims(0, 0, 1) },
+  hr: { factor: 3600, dimensions: dims(0, 0, 1) },
+  day: { factor: 86400, dimensions: dims(0, 0, 1) },
+  K: { factor: 1, dimensions: dims(0, 0, 0, 1) },
+  '°C': { factor: 1, dimensions: dims(0, 0, 0, 1), offset: 273.15 },
+  degC: { factor: 1, dimensions: dims(0, 0, 0, 1), offset: 273.15 },
+  '°F': { factor: RANKINE, dimensions: dims(0, 0, 0, 1), offset: 459.67 * RANKINE },
+  degF: { factor: RANKINE, dimensions: dims(0, 0, 0, 1), offset: 459.67 * RANKINE },
+  '°R': { factor: RANKINE, dimensions: dims(0, 0, 0, 1) },
+  degR: { factor: RANKINE, dimensions: dims(0, 0, 0, 1) },
+  mol: { factor: 1, dimensions: dims(0, 0, 0, 0, 1), prefixable: true },
+  lbmol: { factor: 453.59237, dimensions: dims(0, 0, 0, 0, 1) },
+  N: { factor: 1, dimensions: dims(1, 1, -2), prefixable: true },
+  lbf: { factor: 4.4482216, dimensions: dims(1, 1, -2) },
+  dyn: { factor: 1e-5, dimensions: dims(1, 1, -2) },
+  J: { factor: 1, dimensions: ENERGY, prefixable: true },
+  cal: { factor: 4.1868, dimensions: ENERGY, prefixable: true },
+  BTU: { factor: 1055.056, dimensions: ENERGY },
+  Btu: { factor: 1055.056, dimensions: ENERGY },
+  erg: { factor: 1e-7, dimensions: ENERGY },
+  Wh: { factor: 3600, dimensions: ENERGY, prefixable: true },
+  W: { factor: 1, dimensions: dims(1, 2, -3), prefixable: true },
+  hp: { factor: 745.69987, dimensions: dims(1, 2, -3) },
+  Pa: { factor: 1, dimensions: PRESSURE, prefixable: true },
+  bar: { factor: 1e5, dimensions: PRESSURE, prefixable: true },
+  atm: { factor: 101325, dimensions: PRESSURE },
+  psi: { factor: 6894.757, dimensions: PRESSURE },
+  mmHg: { factor: 133.322, dimensions: PRESSURE },
+  torr: { factor: 133.322, dimensions: PRESSURE },
+  Torr: { factor: 133.322, dimensions: PRESSURE },
+  P: { factor: 0.1, dimensions: dims(1, -1, -1), prefixable: true },
+  St: { factor: 1e-4, dimensions: dims(0, 2, -1), prefixable: true },
+  L: { factor: 0.001, dimensions: dims(0, 3, 0), prefixable: true },
+  l: { factor: 0.001, dimensions: dims(0, 3, 0), prefixable: true },
+  gal: { factor: 0.003785411784, dimensions: dims(0, 3, 0) },
+  Hz: { factor: 1, dimensions: dims(0, 0, -1), prefixable: true },
+};
+
+const PREFIXES: Record<string, number> = {
+  T: 1e12, G: 1e9, M: 1e6, k: 1e3, h: 1e2, d: 1e-1, c: 1e-2, m: 1e-3, µ: 1e-6, μ: 1e-6, u: 1e-6, n: 1e-9, p: 1e-12,
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-',
+};
+
+class UnitError extends Error {}
+
+type UnitToken =
+  | { kind: 'symbol'; value: string }
+  | { kind: 'exponent'; value: number }
+  | { kind: 'op'; value: string };
+
+// Own properties only, so names such as "constructor" aren't found on Object.prototype
+const baseUnit = (symbol: string): BaseUnit | undefined =>
+  Object.prototype.hasOwnProperty.call(BASE_UNITS, symbol) ? BASE_UNITS[symbol] : undefined;
+
+const resolveSymbol = (symbol: string): BaseUnit => {
+  const unit = baseUnit(symbol);
+  if (unit) return unit;
+
+  for (const [prefix, scale] of Object.entries(PREFIXES)) {
+    const base = symbol.startsWith(prefix) ? baseUnit(symbol.slice(prefix.length)) : undefined;
+    if (base?.prefixable) return { ...base, factor: base.factor * scale, offset: undefined };
+  }
+
+  throw new UnitError(`Unknown unit "${symbol}"`);
+};
+
+const tokenizeUnit = (expression: string): UnitToken[] => {
+  const normalized = expression
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, run => `^${[...run].map(c => SUPERSCRIPTS[c]).join('')}`)
+    .replace(/[·⋅×*]/g, '*');
+  const tokens: UnitToken[] = [];
+  // Symbols, exponents written as ^n or straight after a symbol (m2, s-1), and operators
+  const pattern = /\s*(?:([A-Za-z°µμ]+)|\^\s*\(?\s*([-+]?\d+)\s*\)?|(-?\d+)|([/*()-]))/y;
+  let index = 0;
+
+  while (index < normalized.length) {
+    if (/^\s*$/.test(normalized.slice(index))) break;
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(normalized);
+    if (!match) throw new UnitError(`Unexpected character "${normalized.slice(index).trim()[0]}"`);
+
+    const previous = tokens[tokens.length - 1];
+    const followsUnit = previous?.kind === 'symbol' || (previous?.kind === 'op' && previous.value === ')');
+    const spaced = /^\s/.test(match[0]);
+
+    if (match[1] !== undefined) {
+      tokens.push({ kind: 'symbol', value: match[1] });
+    } else if (match[2] !== undefined) {
+      tokens.push({ kind: 'exponent', value: Number(match[2]) });
+    } else if (match[3] !== undefined) {
+      // "1" as in 1/s, or an exponent written straight after a symbol
+      if (followsUnit && !spaced) tokens.push({ kind: 'exponent', value: Number(match[3]) });
+      else if (match[3] === '1') tokens.push({ kind: 'symbol', value: '1' });
+      else throw new UnitError(`Unexpected number "${match[3]}"`);
+    } else {
+      // A hyphen between units multiplies, as in N-m
+      tokens.push({ kind: 'op', value: match[4] === '-' ? '*' : match[4] });
+    }
+
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+};
+
+const combine = (a: ParsedUnit, b: ParsedUnit, power: number): ParsedUnit => ({
+  factor: a.factor * b.factor ** power,
+  dimensions: a.dimensions.map((d, i) => d + b.dimensions[i] * power) as Dimensions,
+});
+
+// Everything after a slash is in the denominator, so W/m²·K is W/(m²·K) as engineers write it
+const parseUnitTokens = (tokens: UnitToken[]): ParsedUnit => {
+  let position = 0;
+
+  const parseProduct = (): ParsedUnit => {
+    let result: ParsedUnit = { factor: 1, dimensions: DIMENSIONLESS };
+    let sign = 1;
+
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (token.kind === 'op' && token.value === ')') break;
+      if (token.kind === 'op' && token.value === '/') {
+        sign = -1;
+        position++;
+        continue;
+      }
+      if (token.kind === 'op' && token.value === '*') {
+        position++;
+        continue;
+      }
+      result = combine(result, parseFactor(), sign);
+    }
+
+    return result;
+  };
+
+  const parseFactor = (): ParsedUnit => {
+    const token = tokens[position++];
+    let unit: ParsedUnit;
+
+    if (!token) {
+      throw new UnitError('Expected a unit');
+    } else if (token.kind === 'op' && token.value === '(') {
+      unit = parseProduct();
+      const closing = tokens[position++];
+      if (closing?.kind !== 'op' || closing.value !== ')') throw new UnitError('Missing closing parenthesis');
+    } else if (token.kind === 'symbol') {
+      unit = token.value === '1' ? { factor: 1, dimensions: DIMENSIONLESS } : resolveSymbol(token.value);
+    } else {
+      throw new UnitError('Expected a unit');
+    }
+
+    const next = tokens[position];
+    if (next?.kind === 'exponent') {
+      position++;
+      return combine({ factor: 1, dimensions: DIMENSIONLESS }, unit, next.value);
+    }
+    return { factor: unit.factor, dimensions: unit.dimensions };
+  };
+
+  const unit = parseProduct();
+  if (position < tokens.length) throw new UnitError('Unmatched closing parenthesis');
+  return unit;
+};
+
+/**
+ * Resolves a unit expression such as "kW", "J/s", "BTU/h·ft²·°F" or "W/(m^2 K)" to SI.
+ * Returns null when the expression can't be read or uses an unknown unit.
+ */
+export const parseUnit = (expression: string): ParsedUnit | null => {
+  const trimmed = expression.trim();
+  if (!trimmed) return { factor: 1, dimensions: DIMENSIONLESS };
+
+  try {
+    const unit = parseUnitTokens(tokenizeUnit(trimmed));
+    // Absolute temperature scales only convert with their offset when they stand alone
+    const lone = baseUnit(trimmed);
+    return lone?.offset ? { ...unit, offset: lone.offset } : unit;
+  } catch (error) {
+    if (error instanceof UnitError) return null;
+    throw error;
+  }
+};
+
+export const sameDimensions = (a: ParsedUnit, b: ParsedUnit) =>
+  a.dimensions.every((d, i) => Math.abs(d - b.dimensions[i]) < 1e-9);
+
+export const isDimensionless = (unit: ParsedUnit) => sameDimensions(unit, { factor: 1, dimensions: DIMENSIONLESS });
+
+export const findQuantity = (symbol: string): Quantity | undefined =>
+  QUANTITIES.find(quantity => quantity.units.some(unit => unit.symbol === symbol));
+
+export const findUnit = (symbol: string): UnitDefinition | undefined =>
+  findQuantity(symbol)?.units.find(unit => unit.symbol === symbol);
+
+/** The quantity a unit measures, e.g. heat flux for BTU/h·ft², if it is one of QUANTITIES. */
+export const describeQuantity = (unit: ParsedUnit): string | undefined => {
+  const quantity = QUANTITIES.find(q => {
+    const si = parseUnit(q.units[0].symbol);
+    return si && sameDimensions(si, unit);
+  });
+  return quantity?.name.toLowerCase();
+};
+
+/**
+ * Converts a value between two units with the same dimensions.
+ * Returns null when either unit can't be read or the dimensions differ.
+ */
+export const convertUnit = (value: number, from: string, to: string): number | null => {
+  if (from === to) return value;
+
+  const source = parseUnit(from);
+  const target = parseUnit(to);
+  if (!source || !target || !sameDimensions(source, target)) return null;
+
+  const si = value * source.factor + (source.offset ?? 0);
+  return (si - (target.offset ?? 0)) / target.factor;
+};
+
+/**
+ * Explains why an answer in `given` units can't be compared with one in `expected` units,
+ * or returns null if it can.
+ */
+export const unitMismatch = (given: string, expected: string | undefined): string | null => {
+  const givenUnit = parseUnit(given);
+  if (!givenUnit) return `"${given}" isn't a unit that can be recognized.`;
+
+  const expectedUnit = parseUnit(expected ?? '');
+  if (!expectedUnit || sameDimensions(givenUnit, expectedUnit)) return null;
+
+  const describe = (symbol: string, unit: ParsedUnit) => {
+    const quantity = describeQuantity(unit);
+    return quantity ? `${symbol} (${quantity})` : symbol;
+  };
+  return isDimensionless(expectedUnit)
+    ? `Wrong dimensions: you gave ${describe(given, givenUnit)}, expected a dimensionless number.`
+    : `Wrong dimensions: you gave ${describe(given, givenUnit)}, expected ${describe(expected!, expectedUnit)}.`;
+};
@@ -7,6 +7,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
 import { 
   ArrowLeft, 
   Users, 
@@ -17,7 +19,11 @@ import {
   Clock,
   BookOpen
 } from 'lucide-react';
+import { ItemAnalysisPanel } from '@/components/quiz/ItemAnalysisPanel';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import { averageGrade, DEFAULT_SCORE_POLICY, moduleGrades, SCORE_POLICIES } from '@/lib/quiz/attempts';
+import { QUIZ_MODES } from '@/lib/quiz/modes';
+import type { QuizMode, ScorePolicy } from '@/lib/quiz/types';
 
 interface Student {
   id: string;
@@ -26,15 +32,15 @@ interface Student {
   created_at: string;
 }
 
-interface QuizAttempt {
+interface QuizSession {
+  id: string;
   user_id: string;
-  quiz_id: string;
+  module_id: string;
   score: number;
-  attempt_date: string;
-  quizzes?: {
-    modules?: {
-      title: string;
-    };
+  submitted_at: string;
+  mode: QuizMode;
+  modules?: {
+    title: string;
   };
 }
 
@@ -50,21 +56,34 @@ interface StudentProgress {
   last_activity: string;
 }
 
+// Extended time options for timed quizzes, as multiples of the time limit
+const TIME_MULTIPLIERS = [
+  { value: 1, label: 'Standard time' },
+  { value: 1.25, label: '1.25× time' },
+  { value: 1.5, label: '1.5× time' },
+  { value: 2, label: '2× time' }
+];
+
 interface ModuleStats {
   module_id: string;
   module_title: string;
   total_completions: number;
   average_score: number;
   total_attempts: number;
+  score_policy: ScorePolicy;
 }
 
 export const AdminAnalytics = () => {
   const { profile } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [students, setStudents] = useState<Student[]>([]);
   const [studentProgress, setStudentProgress] = useState<StudentProgress[]>([]);
   const [moduleStats, setModuleStats] = useState<ModuleStats[]>([]);
-  const [attemptsData, setAttemptsData] = useState<QuizAttempt[]>([]);
+  const [attemptsData, setAttemptsData] = useState<QuizSession[]>([]);
+  const [timeMultipliers, setTimeMultipliers] = useState<Record<string, number>>({});
+  // Which attempts the stats are computed from
+  const [modeFilter, setModeFilter] = useState<QuizMode | 'all'>('all');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -77,7 +96,7 @@ export const AdminAnalytics = () => {
     if (profile?.role === 'admin') {
       fetchAnalyticsData();
     }
-  }, [profile, navigate]);
+  }, [profile, navigate, modeFilter]);
 
   // Add real-time updates
   useEffect(() => {
@@ -93,7 +112,7 @@ export const AdminAnalytics = () => {
 
     const attemptsChannel = supabase
       .channel('attempts-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'quiz_attempts' }, () => {
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'quiz_sessions' }, () => {
         fetchAnalyticsData();
       })
       .subscribe();
@@ -110,7 +129,7 @@ export const AdminAnalytics = () => {
       supabase.removeChannel(attemptsChannel);
       supabase.removeChannel(profilesChannel);
     };
-  }, [profile]);
+  }, [profile, modeFilter]);
 
   const fetchAnalyticsData = async () => {
     try {
@@ -126,10 +145,13 @@ export const AdminAnalytics = () => {
         .from('modules')
         .select('id, title');
 
-      // Fetch quizzes (for mapping quiz_id -> module_id)
-      const { data: quizzesMapData } = await supabase
-        .from('quizzes')
-        .select('id, module_id');
+      // Which attempt counts toward each module's score
+      const { data: settingsData } = await supabase
+        .from('quiz_settings')
+        .select('module_id, score_policy');
+      const scorePolicies: Record<string, ScorePolicy> = Object.fromEntries(
+        (settingsData || []).map(s => [s.module_id, s.score_policy])
+      );
 
       // Fetch all progress
       const { data: progressData } = await supabase
@@ -141,18 +163,36 @@ export const AdminAnalytics = () => {
           updated_at
         `);
 
-      // Fetch all quiz attempts with detailed info
-      const { data: attemptsDataRaw } = await supabase
-        .from('quiz_attempts')
+      // Fetch all quiz sessions with module info
+      const { data: allAttemptsData } = await supabase
+        .from('quiz_sessions')
         .select(`
+          id,
           user_id,
-          quiz_id,
+          module_id,
           score,
-          attempt_date,
-          quizzes!inner(module_id, modules!inner(title))
-        `);
+          submitted_at,
+          mode,
+          modules!inner(title)
+        `)
+        .eq('status', 'submitted');
+
+      // The filter picks the attempts listed; grades only ever count non-practice ones
+      const attemptsDataRaw = modeFilter === 'all'
+        ? allAttemptsData || []
+        : (allAttemptsData || []).filter(a => a.mode === modeFilter);
+
+      setAttemptsData(attemptsDataRaw);
+      const grades = moduleGrades(allAttemptsData || [], scorePolicies);
+
+      // Fetch extended time accommodations
+      const { data: accommodationsData } = await supabase
+        .from('student_accommodations')
+        .select('user_id, time_multiplier');
 
-      setAttemptsData(attemptsDataRaw || []);
+      setTimeMultipliers(Object.fromEntries(
+        (accommodationsData || []).map(a => [a.user_id, Number(a.time_multiplier)])
+      ));
 
       // Transform students data to match interface
       const transformedStudents: Student[] = (studentsData || []).map(s => ({
@@ -178,7 +218,7 @@ export const AdminAnalytics = () => {
 
       // Group attempts by user
       const attemptsMap = new Map();
-      (attemptsDataRaw || []).forEach(a => {
+      attemptsDataRaw.forEach(a => {
         if (!attemptsMap.has(a.user_id)) {
           attemptsMap.set(a.user_id, []);
         }
@@ -191,9 +231,7 @@ export const AdminAnalytics = () => {
         
         const completedModules = userProgress.filter(p => p.completed).length;
         const totalModules = modulesData?.length || 0;
-        const averageScore = userAttempts.length > 0 
-          ? userAttempts.reduce((sum, a) => sum + a.score, 0) / userAttempts.length 
-          : 0;
+        const averageScore = averageGrade(grades.filter(g => g.user_id === student.id));
         
         const lastActivity = userProgress.length > 0 
           ? Math.max(...userProgress.map(p => new Date(p.updated_at).getTime()))
@@ -232,14 +270,16 @@ export const AdminAnalytics = () => {
         }
       });
 
-      const quizToModule = new Map((quizzesMapData || []).map((q: any) => [q.id, q.module_id]));
+      attemptsDataRaw.forEach(a => {
+        if (moduleStatsMap.has(a.module_id)) {
+          moduleStatsMap.get(a.module_id).total_attempts++;
+        }
+      });
 
-      (attemptsDataRaw || []).forEach(a => {
-        const modId = quizToModule.get(a.quiz_id);
-        if (modId && moduleStatsMap.has(modId)) {
-          const stat = moduleStatsMap.get(modId);
-          stat.total_attempts++;
-          stat.scores.push(a.score);
+      // One counting score per student
+      grades.forEach(g => {
+        if (moduleStatsMap.has(g.module_id)) {
+          moduleStatsMap.get(g.module_id).scores.push(g.score);
         }
       });
 
@@ -250,7 +290,8 @@ export const AdminAnalytics = () => {
         average_score: stat.scores.length > 0 
           ? stat.scores.reduce((sum, s) => sum + s, 0) / stat.scores.length 
           : 0,
-        total_attempts: stat.total_attempts
+        total_attempts: stat.total_attempts,
+        score_policy: scorePolicies[stat.module_id] ?? DEFAULT_SCORE_POLICY
       }));
 
       setModuleStats(processedModuleStats);
@@ -262,6 +303,32 @@ export const AdminAnalytics = () => {
     }
   };
 
+  const updateTimeMultiplier = async (studentId: string, multiplier: number) => {
+    const previous = timeMultipliers[studentId];
+    setTimeMultipliers(prev => ({ ...prev, [studentId]: multiplier }));
+
+    try {
+      const { error } = multiplier === 1
+        ? await supabase.from('student_accommodations').delete().eq('user_id', studentId)
+        : await supabase.from('student_accommodations').upsert({ user_id: studentId, time_multiplier: multiplier });
+
+      if (error) throw error;
+
+      toast({
+        title: "Accommodation Updated",
+        description: "Applies to timed quizzes the student starts from now on."
+      });
+    } catch (error) {
+      console.error('Error updating accommodation:', error);
+      setTimeMultipliers(prev => ({ ...prev, [studentId]: previous }));
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update extended time"
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto p-6 space-y-6">
@@ -307,12 +374,25 @@ export const AdminAnalytics = () => {
           <h1 className="text-3xl font-bold">Analytics Dashboard</h1>
           <p className="text-muted-foreground">Monitor student performance and engagement</p>
         </div>
-        <Link to="/dashboard">
-          <Button variant="ghost">
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Dashboard
-          </Button>
-        </Link>
+        <div className="flex items-center space-x-2">
+          <Select value={modeFilter} onValueChange={(value) => setModeFilter(value as QuizMode | 'all')}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All attempts</SelectItem>
+              {QUIZ_MODES.map(mode => (
+                <SelectItem key={mode.value} value={mode.value}>{mode.label} attempts</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Link to="/dashboard">
+            <Button variant="ghost">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Overview Stats */}
@@ -393,9 +473,10 @@ export const AdminAnalytics = () => {
         transition={{ duration: 0.6, delay: 0.5 }}
       >
         <Tabs defaultValue="students" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="students">Student Performance</TabsTrigger>
             <TabsTrigger value="modules">Module Analytics</TabsTrigger>
+            <TabsTrigger value="items">Item Analysis</TabsTrigger>
             <TabsTrigger value="attempts">Quiz Attempts</TabsTrigger>
           </TabsList>
 
@@ -442,12 +523,29 @@ export const AdminAnalytics = () => {
                              </span>
                            </div>
                         </div>
-                        <div className="text-right">
-                          <div className="text-lg font-semibold">
-                            {student.progress_percentage.toFixed(1)}%
-                          </div>
-                          <div className="text-xs text-muted-foreground">
-                            Progress
+                        <div className="flex items-center space-x-4">
+                          <Select
+                            value={String(timeMultipliers[student.student_id] ?? 1)}
+                            onValueChange={(value) => updateTimeMultiplier(student.student_id, Number(value))}
+                          >
+                            <SelectTrigger className="w-36" aria-label="Extended time">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {TIME_MULTIPLIERS.map(option => (
+                                <SelectItem key={option.value} value={String(option.value)}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="text-right">
+                            <div className="text-lg font-semibold">
+                              {student.progress_percentage.toFixed(1)}%
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              Progress
+                            </div>
                           </div>
                         </div>
                       </div>
@@ -490,6 +588,9 @@ export const AdminAnalytics = () => {
                               <BarChart3 className="h-3 w-3 mr-1" />
                               {module.total_attempts} quiz attempts
                             </span>
+                            <span>
+                              {SCORE_POLICIES.find(p => p.value === module.score_policy)?.label} counts
+                            </span>
                           </div>
                         </div>
                         <div className="text-right">
@@ -511,6 +612,13 @@ export const AdminAnalytics = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="items" className="space-y-6">
+            <ItemAnalysisPanel
+              modules={moduleStats.map(module => ({ id: module.module_id, title: module.module_title }))}
+              modeFilter={modeFilter}
+            />
+          </TabsContent>
+
           <TabsContent value="attempts" className="space-y-6">
             <Card>
               <CardHeader>
@@ -521,14 +629,14 @@ export const AdminAnalytics = () => {
                 <div className="space-y-4">
                   {attemptsData && attemptsData.length > 0 ? (
                     attemptsData
-                      .sort((a, b) => new Date(b.attempt_date).getTime() - new Date(a.attempt_date).getTime())
+                      .sort((a, b) => new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime())
                       .map((attempt, index) => {
                         const student = studentsMap.get(attempt.user_id);
-                        const moduleTitle = attempt.quizzes?.modules?.title || 'Unknown Module';
+                        const moduleTitle = attempt.modules?.title || 'Unknown Module';
                         
                         return (
                           <motion.div
-                            key={`${attempt.user_id}-${attempt.quiz_id}-${attempt.attempt_date}`}
+                            key={attempt.id}
                             className="p-4 border rounded-lg hover:shadow-sm transition-all duration-200"
                             initial={{ opacity: 0, x: -20 }}
                             animate={{ opacity: 1, x: 0 }}
@@ -547,9 +655,12 @@ export const AdminAnalytics = () => {
                                     <BookOpen className="h-3 w-3 mr-1" />
                                     {moduleTitle}
                                   </span>
+                                  <Badge variant="outline" className="text-xs">
+                                    {attempt.mode === 'exam' ? 'Exam' : 'Practice'}
+                                  </Badge>
                                   <span className="flex items-center">
                                     <Clock className="h-3 w-3 mr-1" />
-                                    {new Date(attempt.attempt_date).toLocaleDateString('en-US', {
+                                    {new Date(attempt.submitted_at).toLocaleDateString('en-US', {
                                       year: 'numeric',
                                       month: 'short',
                                       day: 'numeric',
@@ -569,6 +680,13 @@ export const AdminAnalytics = () => {
                                 >
                                   {attempt.score >= 80 ? "Excellent" : attempt.score >= 60 ? "Good" : "Needs Improvement"}
                                 </Badge>
+                                <div>
+                                  <Link to={`/quiz-results/${attempt.id}`}>
+                                    <Button variant="link" size="sm" className="h-auto p-0 text-xs">
+                                      Review answers
+                                    </Button>
+                                  </Link>
+                                </div>
                               </div>
                             </div>
                           </motion.div>
@@ -11,12 +11,52 @@ import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { 
   ArrowLeft, 
+  ClipboardCheck,
+  Download,
+  Eye,
   Save,
   Plus,
-  Trash2
+  RefreshCw,
+  Trash2,
+  Upload
 } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
+import { MathPreview } from '@/components/math/MathPreview';
+import { NumericAnswerEditor } from '@/components/quiz/NumericAnswerEditor';
+import { ShortAnswerEditor } from '@/components/quiz/ShortAnswerEditor';
+import { CalculatedQuestionEditor } from '@/components/quiz/CalculatedQuestionEditor';
+import { HintsEditor } from '@/components/quiz/HintsEditor';
+import { MatchingEditor } from '@/components/quiz/MatchingEditor';
+import { MultiPartQuestionEditor } from '@/components/quiz/MultiPartQuestionEditor';
+import { OptionsEditor } from '@/components/quiz/OptionsEditor';
+import { OrderingEditor } from '@/components/quiz/OrderingEditor';
+import { QuizPreview } from '@/components/quiz/QuizPreview';
+import type { PreviewQuestion } from '@/components/quiz/QuizPreview';
+import { QuizSettingsEditor } from '@/components/quiz/QuizSettingsEditor';
+import { RegradeDialog } from '@/components/quiz/RegradeDialog';
+import { DEFAULT_SCORE_POLICY } from '@/lib/quiz/attempts';
+import { validateCalculated } from '@/lib/quiz/calculated';
+import { DIFFICULTIES } from '@/lib/quiz/draw';
+import { QUESTION_TYPES } from '@/lib/quiz/grading';
+import { editableOptions, validateMatching } from '@/lib/quiz/matching';
+import { formatSelection, parseSelection } from '@/lib/quiz/multi-select';
+import { blankPart, cleanParts, validateParts } from '@/lib/quiz/multipart';
+import { isNumericValue } from '@/lib/quiz/numeric';
+import { cleanOrdering, sortItems, validateOrdering } from '@/lib/quiz/ordering';
+import { exportQtiPackage } from '@/lib/quiz/qti';
+import type { AnswerConfig, Difficulty, DrawRule, QuestionHint, QuestionType, QuizSettings } from '@/lib/quiz/types';
+import type { Json } from '@/integrations/supabase/types';
 
 interface Module {
   id: string;
@@ -30,12 +70,91 @@ interface Module {
 interface Quiz {
   id?: string;
   question: string;
-  type: 'mcq' | 'numeric' | 'short';
+  type: QuestionType;
   options: string[];
   correct_answer: string;
+  answer_config?: AnswerConfig;
   explanation?: string;
+  difficulty?: Difficulty | null;
+  tags: string[];
+  points: number;
+  hints: QuestionHint[];
+  // Set by calibration in the grade-quiz function, never edited here
+  irt_difficulty?: number | null;
+  irt_standard_error?: number | null;
+  irt_response_count?: number;
+  irt_calibrated_at?: string | null;
+  // Bumped by the database whenever a change can affect grading
+  version?: number;
 }
 
+const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  mode: 'practice',
+  max_attempts: null,
+  cooldown_minutes: null,
+  score_policy: DEFAULT_SCORE_POLICY,
+  feedback_release_at: null,
+  time_limit_minutes: null,
+  draw_rules: [],
+  shuffle_questions: false,
+  shuffle_options: false,
+  adaptive: false,
+  adaptive_target_se: 0.5,
+  adaptive_max_questions: null
+};
+
+const NO_DIFFICULTY = 'none';
+
+const hasOptions = (type: QuestionType) => type === 'mcq' || type === 'multi';
+
+// Matching options and ordering items are saved alphabetically so their order gives nothing away
+const storedOptions = (quiz: Quiz) => {
+  if (hasOptions(quiz.type)) return quiz.options.filter(o => o.trim());
+  if (quiz.type === 'matching') return sortItems([...new Set(quiz.options.map(o => o.trim()).filter(Boolean))]);
+  if (quiz.type === 'ordering') return sortItems(parseSelection(cleanOrdering(quiz.correct_answer)));
+  return null;
+};
+
+const storedCorrectAnswer = (quiz: Quiz) => {
+  switch (quiz.type) {
+    case 'multi':
+      return formatSelection(parseSelection(quiz.correct_answer).filter(o => o.trim() && quiz.options.includes(o)));
+    case 'matching':
+      return formatSelection(parseSelection(quiz.correct_answer).map(match => match.trim()));
+    case 'ordering':
+      return cleanOrdering(quiz.correct_answer);
+    default:
+      return quiz.correct_answer.trim();
+  }
+};
+
+const storedAnswerConfig = (quiz: Quiz): AnswerConfig | null => {
+  switch (quiz.type) {
+    case 'mcq':
+    case 'ordering':
+      return null;
+    case 'multipart':
+      return { ...quiz.answer_config, parts: cleanParts(quiz.answer_config?.parts ?? []) };
+    case 'matching':
+      return { prompts: (quiz.answer_config?.prompts ?? []).map(prompt => prompt.trim()) };
+    default:
+      return quiz.answer_config ?? null;
+  }
+};
+
+const storedPoints = (quiz: Quiz) => quiz.points > 0 ? quiz.points : 1;
+
+// Calibrated difficulty is on the ability scale: 0 is an average question, higher is harder
+const calibrationLabel = (quiz: Quiz) => quiz.irt_difficulty == null
+  ? 'Not calibrated yet'
+  : `Calibrated difficulty ${Number(quiz.irt_difficulty).toFixed(2)} ± ${Number(quiz.irt_standard_error ?? 0).toFixed(2)} from ${quiz.irt_response_count} responses`;
+
+const cleanTags = (tags: string[]) => [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+
+const cleanHints = (hints: QuestionHint[]) => hints
+  .filter(hint => hint.text.trim())
+  .map(hint => ({ text: hint.text.trim(), penalty: Math.min(100, Math.max(0, Number(hint.penalty) || 0)) }));
+
 export const CreateModule = () => {
   const { id } = useParams();
   const navigate = useNavigate();
@@ -52,8 +171,14 @@ export const CreateModule = () => {
   });
   
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizSettings, setQuizSettings] = useState<QuizSettings>(DEFAULT_QUIZ_SETTINGS);
   const [loading, setLoading] = useState(!!id);
   const [saving, setSaving] = useState(false);
+  const [calibrating, setCalibrating] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [regradeQuizId, setRegradeQuizId] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [confirmIncomplete, setConfirmIncomplete] = useState(false);
 
   const isEditing = !!id;
 
@@ -93,16 +218,39 @@ export const CreateModule = () => {
         .from('quizzes')
         .select('*')
         .eq('module_id', id)
+        .is('deleted_at', null)
         .order('created_at');
 
       if (quizzesError) throw quizzesError;
 
       // Process the quiz data to ensure options is properly parsed
-      const processedQuizzes = (quizzesData || []).map(quiz => ({
-        ...quiz,
-        options: Array.isArray(quiz.options) ? quiz.options : JSON.parse(quiz.options as string || '["","","",""]')
-      }));
+      const processedQuizzes = (quizzesData || []).map(quiz => {
+        const options: string[] = Array.isArray(quiz.options) ? quiz.options : JSON.parse(quiz.options as string || '["","","",""]');
+        return {
+          ...quiz,
+          options: quiz.type === 'matching' ? editableOptions(options, quiz.correct_answer) : options,
+          answer_config: (quiz.answer_config || {}) as AnswerConfig,
+          tags: quiz.tags || [],
+          points: Number(quiz.points ?? 1),
+          hints: Array.isArray(quiz.hints) ? quiz.hints as unknown as QuestionHint[] : []
+        };
+      });
       setQuizzes(processedQuizzes);
+
+      const { data: settingsData, error: settingsError } = await supabase
+        .from('quiz_settings')
+        .select('mode, max_attempts, cooldown_minutes, score_policy, feedback_release_at, time_limit_minutes, draw_rules, shuffle_questions, shuffle_options, adaptive, adaptive_target_se, adaptive_max_questions')
+        .eq('module_id', id)
+        .maybeSingle();
+
+      if (settingsError) throw settingsError;
+      if (settingsData) {
+        setQuizSettings({
+          ...settingsData,
+          draw_rules: (settingsData.draw_rules || []) as unknown as DrawRule[],
+          adaptive_target_se: Number(settingsData.adaptive_target_se)
+        });
+      }
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -115,12 +263,96 @@ export const CreateModule = () => {
     }
   };
 
+  // Re-estimates every question's difficulty from all responses to it so far
+  const recalibrate = async () => {
+    setCalibrating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: { action: 'calibrate', module_id: id }
+      });
+
+      if (error) throw error;
+
+      const calibratedAt = new Date().toISOString();
+      setQuizzes(prev => prev.map(quiz => {
+        const item = quiz.id ? data.calibrated[quiz.id] : undefined;
+        return item ? {
+          ...quiz,
+          irt_difficulty: item.difficulty,
+          irt_standard_error: item.standard_error,
+          irt_response_count: item.responses,
+          irt_calibrated_at: calibratedAt
+        } : quiz;
+      }));
+      toast({
+        title: "Difficulty Recalibrated",
+        description: `${Object.keys(data.calibrated).length} questions calibrated from ${data.responses} responses.`
+      });
+    } catch (error) {
+      console.error('Error calibrating questions:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to recalibrate question difficulty"
+      });
+    } finally {
+      setCalibrating(false);
+    }
+  };
+
+  // Exports the saved questions, so unsaved edits aren't included
+  const exportQti = async () => {
+    setExporting(true);
+    try {
+      const { data, error } = await supabase
+        .from('quizzes')
+        .select('id, question, type, options, correct_answer, answer_config, explanation, points')
+        .eq('module_id', id)
+        .is('deleted_at', null)
+        .order('created_at');
+
+      if (error) throw error;
+
+      const { zip, exported, skipped } = exportQtiPackage(module.title, (data || []).map(quiz => ({
+        ...quiz,
+        type: quiz.type as QuestionType,
+        answer_config: quiz.answer_config as AnswerConfig | null
+      })));
+
+      const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${module.title.trim().replace(/[^\w-]+/g, '-').toLowerCase() || 'module'}-qti.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "QTI Package Exported",
+        description: skipped.length > 0
+          ? `${exported} questions exported. Left out: ${skipped.map(s => `${s.name} (${s.reason})`).join('; ')}.`
+          : `${exported} questions exported.`
+      });
+    } catch (error) {
+      console.error('Error exporting questions:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to export questions"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const addQuiz = () => {
     setQuizzes([...quizzes, {
       question: '',
       type: 'mcq',
       options: ['', '', '', ''],
       correct_answer: '',
+      tags: [],
+      points: 1,
+      hints: [],
       explanation: ''
     }]);
   };
@@ -135,15 +367,79 @@ export const CreateModule = () => {
     setQuizzes(updatedQuizzes);
   };
 
-  const updateQuizOption = (quizIndex: number, optionIndex: number, value: string) => {
+  const changeQuizType = (index: number, type: QuestionType) => {
     const updatedQuizzes = [...quizzes];
-    const newOptions = [...updatedQuizzes[quizIndex].options];
-    newOptions[optionIndex] = value;
-    updatedQuizzes[quizIndex].options = newOptions;
+    updatedQuizzes[index] = {
+      ...updatedQuizzes[index],
+      type,
+      options: hasOptions(type) ? ['', '', '', ''] : type === 'matching' ? ['', '', ''] : [],
+      correct_answer: type === 'multi'
+        ? formatSelection([])
+        : type === 'matching' || type === 'ordering' ? formatSelection(['', '', '']) : '',
+      answer_config: type === 'numeric' || type === 'calculated'
+        ? { tolerance_type: 'relative', tolerance: 1 }
+        : type === 'multi'
+          ? { scoring: 'all_or_nothing' }
+          : type === 'multipart'
+            ? { variables: [], parts: [blankPart('numeric'), blankPart('numeric')] }
+            : type === 'matching' ? { prompts: ['', '', ''] } : {}
+    };
     setQuizzes(updatedQuizzes);
   };
 
-  const saveModule = async () => {
+  const isQuizComplete = (quiz: Quiz) => {
+    if (quiz.type === 'multipart') {
+      return !!quiz.question.trim() && validateParts(quiz.answer_config?.parts, quiz.answer_config?.variables) === null;
+    }
+    if (!quiz.question.trim() || !quiz.correct_answer.trim()) return false;
+
+    switch (quiz.type) {
+      case 'numeric':
+        return isNumericValue(quiz.correct_answer);
+      case 'short':
+        return true;
+      case 'calculated':
+        return validateCalculated(quiz.correct_answer, quiz.answer_config?.variables) === null;
+      case 'multi':
+        return parseSelection(quiz.correct_answer).some(o => o.trim() && quiz.options.includes(o));
+      case 'matching':
+        return validateMatching(quiz.answer_config?.prompts, quiz.correct_answer) === null;
+      case 'ordering':
+        return validateOrdering(quiz.correct_answer) === null;
+      default:
+        return quiz.options.some(o => o.trim());
+    }
+  };
+
+  // The questions as they would be saved; unsaved ones get a placeholder id for the attempt
+  const previewQuestions = (): PreviewQuestion[] => quizzes
+    .map((quiz, index) => ({ quiz, id: quiz.id ?? `draft-${index}` }))
+    .filter(({ quiz }) => isQuizComplete(quiz))
+    .map(({ quiz, id }) => ({
+      id,
+      question: quiz.question,
+      type: quiz.type,
+      options: storedOptions(quiz) ?? [],
+      correct_answer: storedCorrectAnswer(quiz),
+      answer_config: storedAnswerConfig(quiz) ?? {},
+      points: storedPoints(quiz),
+      explanation: quiz.explanation || null,
+      difficulty: quiz.difficulty || null,
+      tags: cleanTags(quiz.tags),
+      hints: cleanHints(quiz.hints),
+      irt_difficulty: quiz.irt_difficulty
+    }));
+
+  const updateQuizOptions = (index: number, options: string[], correctAnswer: string) => {
+    const updatedQuizzes = [...quizzes];
+    updatedQuizzes[index] = { ...updatedQuizzes[index], options, correct_answer: correctAnswer };
+    setQuizzes(updatedQuizzes);
+  };
+
+  const incompleteCount = quizzes.filter(quiz => !isQuizComplete(quiz)).length;
+
+  // Incomplete questions aren't saved, so the admin confirms before they are dropped
+  const saveModule = async (discardIncomplete = false) => {
     if (!module.title.trim() || !module.content.trim()) {
       toast({
         variant: "destructive",
@@ -153,6 +449,11 @@ export const CreateModule = () => {
       return;
     }
 
+    if (incompleteCount > 0 && !discardIncomplete) {
+      setConfirmIncomplete(true);
+      return;
+    }
+
     setSaving(true);
     try {
       let moduleId = id;
@@ -190,37 +491,59 @@ export const CreateModule = () => {
         moduleId = data.id;
       }
 
-      // Save quizzes
-      if (quizzes.length > 0) {
-        // Delete existing quizzes if editing
-        if (isEditing) {
-          await supabase
-            .from('quizzes')
-            .delete()
-            .eq('module_id', moduleId);
-        }
+      const { error: settingsError } = await supabase
+        .from('quiz_settings')
+        .upsert({
+          module_id: moduleId,
+          ...quizSettings,
+          feedback_release_at: quizSettings.mode === 'exam' ? quizSettings.feedback_release_at : null,
+          draw_rules: quizSettings.draw_rules as unknown as Json
+        });
+
+      if (settingsError) throw settingsError;
+
+      // Save quizzes: saved questions are updated in place so their attempt history stays
+      // attached, and only once that succeeds are questions removed here (or left incomplete)
+      // soft-deleted
+      const validQuizzes = quizzes.filter(isQuizComplete);
+      let keptIds: string[] = [];
+
+      if (validQuizzes.length > 0) {
+        // Rows without an id are inserted; the calibrated irt_* columns are left as they are
+        const { data, error } = await supabase
+          .from('quizzes')
+          .upsert(validQuizzes.map(quiz => ({
+            ...(quiz.id ? { id: quiz.id } : {}),
+            module_id: moduleId,
+            question: quiz.question,
+            type: quiz.type,
+            options: storedOptions(quiz) ? JSON.stringify(storedOptions(quiz)) : null,
+            correct_answer: storedCorrectAnswer(quiz),
+            answer_config: storedAnswerConfig(quiz) as unknown as Json,
+            points: storedPoints(quiz),
+            explanation: quiz.explanation || null,
+            difficulty: quiz.difficulty || null,
+            tags: cleanTags(quiz.tags),
+            hints: cleanHints(quiz.hints) as unknown as Json
+          })), { defaultToNull: false })
+          .select('id');
+
+        if (error) throw error;
+        keptIds = (data || []).map(quiz => quiz.id);
+      }
 
-        // Insert new quizzes
-        const validQuizzes = quizzes.filter(q => 
-          q.question.trim() && 
-          q.options.some(o => o.trim()) &&
-          q.correct_answer.trim()
-        );
-
-        if (validQuizzes.length > 0) {
-          const { error } = await supabase
-            .from('quizzes')
-            .insert(validQuizzes.map(quiz => ({
-              module_id: moduleId,
-              question: quiz.question,
-              type: quiz.type as 'mcq' | 'numeric' | 'short',
-              options: JSON.stringify(quiz.options.filter(o => o.trim())) as any,
-              correct_answer: quiz.correct_answer,
-              explanation: quiz.explanation || null
-            })));
-
-          if (error) throw error;
+      if (isEditing) {
+        let removed = supabase
+          .from('quizzes')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('module_id', moduleId)
+          .is('deleted_at', null);
+        if (keptIds.length > 0) {
+          removed = removed.not('id', 'in', `(${keptIds.join(',')})`);
         }
+
+        const { error } = await removed;
+        if (error) throw error;
       }
 
       toast({
@@ -323,6 +646,10 @@ export const CreateModule = () => {
                 placeholder="Enter the main learning content for this module..."
                 rows={8}
               />
+              <p className="text-xs text-muted-foreground mt-1">
+                Write math in LaTeX: $...$ inline, $$...$$ on its own line. Use \$ for a dollar sign.
+              </p>
+              <MathPreview text={module.content} />
             </div>
 
             <Separator />
@@ -362,6 +689,27 @@ export const CreateModule = () => {
         </Card>
       </motion.div>
 
+      {/* Quiz Settings */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, delay: 0.15 }}
+      >
+        <Card>
+          <CardHeader>
+            <CardTitle>Quiz Settings</CardTitle>
+            <CardDescription>How students take this module's quiz</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <QuizSettingsEditor
+              settings={quizSettings}
+              tags={cleanTags(quizzes.flatMap(quiz => quiz.tags))}
+              onChange={setQuizSettings}
+            />
+          </CardContent>
+        </Card>
+      </motion.div>
+
       {/* Quiz Section */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -375,10 +723,34 @@ export const CreateModule = () => {
                 <CardTitle>Quiz Questions</CardTitle>
                 <CardDescription>Add quiz questions to test knowledge</CardDescription>
               </div>
-              <Button onClick={addQuiz} variant="outline">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Question
-              </Button>
+              <div className="flex items-center space-x-2">
+                {isEditing && (
+                  <>
+                    <Link to={`/admin/import?module=${id}`}>
+                      <Button variant="outline">
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import Questions
+                      </Button>
+                    </Link>
+                    <Button onClick={exportQti} variant="outline" disabled={exporting}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export QTI
+                    </Button>
+                    <Button onClick={recalibrate} variant="outline" disabled={calibrating}>
+                      <RefreshCw className={`h-4 w-4 mr-2 ${calibrating ? 'animate-spin' : ''}`} />
+                      Recalibrate Difficulty
+                    </Button>
+                  </>
+                )}
+                <Button onClick={() => setPreviewing(true)} variant="outline">
+                  <Eye className="h-4 w-4 mr-2" />
+                  Preview Quiz
+                </Button>
+                <Button onClick={addQuiz} variant="outline">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Question
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -391,14 +763,88 @@ export const CreateModule = () => {
                 transition={{ duration: 0.3, delay: index * 0.1 }}
               >
                 <div className="flex items-center justify-between">
-                  <h4 className="font-medium">Question {index + 1}</h4>
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    onClick={() => removeQuiz(index)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <h4 className="font-medium">
+                    Question {index + 1}
+                    {quiz.version && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">Version {quiz.version}</span>
+                    )}
+                  </h4>
+                  <div className="flex items-center space-x-1">
+                    {quiz.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRegradeQuizId(quiz.id!)}
+                      >
+                        <ClipboardCheck className="h-4 w-4 mr-2" />
+                        Regrade
+                      </Button>
+                    )}
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      onClick={() => removeQuiz(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div>
+                    <Label>Question Type</Label>
+                    <Select value={quiz.type} onValueChange={(value) => changeQuizType(index, value as QuestionType)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUESTION_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label>Difficulty</Label>
+                    <Select
+                      value={quiz.difficulty || NO_DIFFICULTY}
+                      onValueChange={(value) => updateQuiz(index, 'difficulty', value === NO_DIFFICULTY ? null : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_DIFFICULTY}>Not set</SelectItem>
+                        {DIFFICULTIES.map(difficulty => (
+                          <SelectItem key={difficulty.value} value={difficulty.value}>{difficulty.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {quiz.id && (
+                      <p className="text-xs text-muted-foreground mt-1">{calibrationLabel(quiz)}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label>Tags (comma separated)</Label>
+                    <Input
+                      value={quiz.tags.join(',')}
+                      onChange={(e) => updateQuiz(index, 'tags', e.target.value.split(','))}
+                      placeholder="e.g. convection, pipes"
+                    />
+                  </div>
+
+                  <div>
+                    <Label>Points</Label>
+                    <Input
+                      type="number"
+                      min={0.5}
+                      step={0.5}
+                      value={quiz.points}
+                      onChange={(e) => updateQuiz(index, 'points', Number(e.target.value))}
+                    />
+                  </div>
                 </div>
 
                 <div>
@@ -409,28 +855,85 @@ export const CreateModule = () => {
                     placeholder="Enter your question..."
                     rows={3}
                   />
+                  <MathPreview text={quiz.question} />
                 </div>
 
-                <div className="space-y-2">
-                  <Label>Answer Options</Label>
-                  {quiz.options.map((option, optionIndex) => (
-                    <div key={optionIndex} className="flex items-center space-x-2">
-                      <Input
-                        value={option}
-                        onChange={(e) => updateQuizOption(index, optionIndex, e.target.value)}
-                        placeholder={`Option ${optionIndex + 1}...`}
-                      />
-                      <Button
-                        variant={quiz.correct_answer === option ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => updateQuiz(index, 'correct_answer', option)}
-                        disabled={!option.trim()}
-                      >
-                        Correct
-                      </Button>
-                    </div>
-                  ))}
-                </div>
+                {hasOptions(quiz.type) && (
+                  <OptionsEditor
+                    multiple={quiz.type === 'multi'}
+                    options={quiz.options}
+                    correctAnswer={quiz.correct_answer}
+                    config={quiz.answer_config || {}}
+                    onOptionsChange={(options, correctAnswer) => updateQuizOptions(index, options, correctAnswer)}
+                    onCorrectAnswerChange={(value) => updateQuiz(index, 'correct_answer', value)}
+                    onConfigChange={(config) => updateQuiz(index, 'answer_config', config)}
+                  />
+                )}
+
+                {quiz.type === 'numeric' && (
+                  <NumericAnswerEditor
+                    correctAnswer={quiz.correct_answer}
+                    config={quiz.answer_config || {}}
+                    onCorrectAnswerChange={(value) => updateQuiz(index, 'correct_answer', value)}
+                    onConfigChange={(config) => updateQuiz(index, 'answer_config', config)}
+                  />
+                )}
+
+                {quiz.type === 'calculated' && (
+                  <CalculatedQuestionEditor
+                    question={quiz.question}
+                    formula={quiz.correct_answer}
+                    config={quiz.answer_config || {}}
+                    onFormulaChange={(value) => updateQuiz(index, 'correct_answer', value)}
+                    onConfigChange={(config) => updateQuiz(index, 'answer_config', config)}
+                  />
+                )}
+
+                {quiz.type === 'multipart' && (
+                  <MultiPartQuestionEditor
+                    config={quiz.answer_config || {}}
+                    onConfigChange={(config) => updateQuiz(index, 'answer_config', config)}
+                  />
+                )}
+
+                {quiz.type === 'matching' && (
+                  <MatchingEditor
+                    prompts={quiz.answer_config?.prompts ?? []}
+                    correctAnswer={quiz.correct_answer}
+                    options={quiz.options}
+                    onChange={({ prompts, correctAnswer, options }) => {
+                      const updatedQuizzes = [...quizzes];
+                      updatedQuizzes[index] = {
+                        ...updatedQuizzes[index],
+                        options,
+                        correct_answer: correctAnswer,
+                        answer_config: { ...updatedQuizzes[index].answer_config, prompts }
+                      };
+                      setQuizzes(updatedQuizzes);
+                    }}
+                  />
+                )}
+
+                {quiz.type === 'ordering' && (
+                  <OrderingEditor
+                    correctAnswer={quiz.correct_answer}
+                    onCorrectAnswerChange={(value) => updateQuiz(index, 'correct_answer', value)}
+                  />
+                )}
+
+                {quiz.type === 'short' && (
+                  <ShortAnswerEditor
+                    correctAnswer={quiz.correct_answer}
+                    config={quiz.answer_config || {}}
+                    onCorrectAnswerChange={(value) => updateQuiz(index, 'correct_answer', value)}
+                    onConfigChange={(config) => updateQuiz(index, 'answer_config', config)}
+                  />
+                )}
+
+                <HintsEditor
+                  hints={quiz.hints}
+                  onChange={(hints) => updateQuiz(index, 'hints', hints)}
+                />
 
                 <div>
                   <Label>Explanation (Optional)</Label>
@@ -440,6 +943,7 @@ export const CreateModule = () => {
                     placeholder="Explain why this is the correct answer..."
                     rows={2}
                   />
+                  <MathPreview text={quiz.explanation} />
                 </div>
               </motion.div>
             ))}
@@ -455,7 +959,7 @@ export const CreateModule = () => {
         transition={{ duration: 0.6, delay: 0.3 }}
       >
         <Button 
-          onClick={saveModule} 
+          onClick={() => saveModule()}
           disabled={saving}
           size="lg"
         >
@@ -476,6 +980,38 @@ export const CreateModule = () => {
           )}
         </Button>
       </motion.div>
+
+      <AlertDialog open={confirmIncomplete} onOpenChange={setConfirmIncomplete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Save Without Incomplete Questions?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {incompleteCount === 1 ? '1 question is' : `${incompleteCount} questions are`} missing a question,
+              answer or other required field and won't be saved. Any of them saved before are removed from
+              the quiz; past attempts keep their answers.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction onClick={() => saveModule(true)}>
+              Save Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {previewing && (
+        <QuizPreview
+          open={previewing}
+          onClose={() => setPreviewing(false)}
+          questions={previewQuestions()}
+          settings={quizSettings}
+        />
+      )}
+
+      {id && (
+        <RegradeDialog moduleId={id} quizId={regradeQuizId} onClose={() => setRegradeQuizId(null)} />
+      )}
     </motion.div>
   );
 };
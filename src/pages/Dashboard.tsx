@@ -16,10 +16,15 @@ import {
   Award,
   Target,
   ArrowRight,
-  MessageSquare
+  MessageSquare,
+  Brain,
+  Upload
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { averageGrade, moduleGrades } from '@/lib/quiz/attempts';
+import { isFeedbackReleased } from '@/lib/quiz/modes';
+import type { QuizMode, ScorePolicy } from '@/lib/quiz/types';
 
 interface Module {
   id: string;
@@ -32,23 +37,49 @@ interface Progress {
   completed: boolean;
 }
 
-interface QuizAttempt {
+interface QuizSession {
   id: string;
+  user_id: string;
   score: number;
-  attempt_date: string;
-  quiz_id: string;
+  submitted_at: string;
+  module_id: string;
+  mode: QuizMode;
+  feedback_release_at: string | null;
 }
 
+// Attempts are read a page at a time, as the API caps how many rows one request returns
+const PAGE_SIZE = 1000;
+
+// Every submitted attempt, newest first; score policies need all of them to pick the one that counts
+const fetchSubmittedAttempts = async () => {
+  const attempts: QuizSession[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('quiz_sessions')
+      .select('id, user_id, score, submitted_at, module_id, mode, feedback_release_at')
+      .eq('status', 'submitted')
+      .order('submitted_at', { ascending: false })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    attempts.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return attempts;
+  }
+};
+
 export const Dashboard = () => {
-  const { profile } = useAuth();
+  const { user, profile } = useAuth();
   const [modules, setModules] = useState<Module[]>([]);
   const [progress, setProgress] = useState<Progress[]>([]);
-  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>([]);
+  const [allQuizAttempts, setAllQuizAttempts] = useState<QuizSession[]>([]);
+  const [scorePolicies, setScorePolicies] = useState<Record<string, ScorePolicy>>({});
+  const [dueReviewCount, setDueReviewCount] = useState(0);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchDashboardData();
-  }, []);
+  }, [user?.id]);
 
   const fetchDashboardData = async () => {
     try {
@@ -63,16 +94,26 @@ export const Dashboard = () => {
         .from('progress')
         .select('module_id, completed');
 
-      // Fetch quiz attempts
-      const { data: attemptsData } = await supabase
-        .from('quiz_attempts')
-        .select('id, score, attempt_date, quiz_id')
-        .order('attempt_date', { ascending: false })
-        .limit(10);
+      const attemptsData = await fetchSubmittedAttempts();
+
+      const { data: settingsData } = await supabase
+        .from('quiz_settings')
+        .select('module_id, score_policy');
+
+      // Missed questions due in the student's review queue
+      const { count: dueCount } = user
+        ? await supabase
+            .from('review_items')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', user.id)
+            .lte('due_at', new Date().toISOString())
+        : { count: 0 };
 
       setModules(modulesData || []);
       setProgress(progressData || []);
-      setQuizAttempts(attemptsData || []);
+      setAllQuizAttempts(attemptsData);
+      setScorePolicies(Object.fromEntries((settingsData || []).map(s => [s.module_id, s.score_policy])));
+      setDueReviewCount(dueCount ?? 0);
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
     } finally {
@@ -84,11 +125,17 @@ export const Dashboard = () => {
   const totalModules = modules.length;
   const progressPercentage = totalModules > 0 ? (completedModules / totalModules) * 100 : 0;
   
-  const averageScore = quizAttempts.length > 0 
-    ? quizAttempts.reduce((sum, attempt) => sum + attempt.score, 0) / quizAttempts.length
-    : 0;
+  // Students don't see exam scores before their release date
+  const quizAttempts = profile?.role === 'admin'
+    ? allQuizAttempts
+    : allQuizAttempts.filter(attempt => isFeedbackReleased(attempt));
+
+  // Each module counts once, by its best, latest or average attempt
+  const averageScore = averageGrade(moduleGrades(quizAttempts, scorePolicies));
 
   const recentAttempts = quizAttempts.slice(0, 5);
+
+  const getModuleTitle = (moduleId: string) => modules.find(m => m.id === moduleId)?.title;
   
   const getNextModule = () => {
     const completedModuleIds = progress.filter(p => p.completed).map(p => p.module_id);
@@ -127,7 +174,7 @@ export const Dashboard = () => {
     const chartData = recentAttempts.slice(0, 5).reverse().map((attempt, index) => ({
       name: `#${index + 1}`,
       score: attempt.score,
-      date: new Date(attempt.attempt_date).toLocaleDateString()
+      date: new Date(attempt.submitted_at).toLocaleDateString()
     }));
 
     return (
@@ -287,6 +334,14 @@ export const Dashboard = () => {
                     </Button>
                   </motion.div>
                 </Link>
+                <Link to="/admin/import">
+                  <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                    <Button variant="outline" className="w-full justify-start">
+                      <Upload className="h-4 w-4 mr-2" />
+                      Import Questions
+                    </Button>
+                  </motion.div>
+                </Link>
               </CardContent>
             </Card>
           </motion.div>
@@ -314,9 +369,9 @@ export const Dashboard = () => {
                         whileHover={{ scale: 1.01 }}
                       >
                         <div className="space-y-1">
-                          <p className="text-sm font-medium">Quiz Attempt</p>
+                          <p className="text-sm font-medium">{getModuleTitle(attempt.module_id) || 'Quiz Attempt'}</p>
                           <p className="text-xs text-muted-foreground">
-                            {new Date(attempt.attempt_date).toLocaleDateString()}
+                            {new Date(attempt.submitted_at).toLocaleDateString()}
                           </p>
                         </div>
                         <Badge variant={attempt.score >= 80 ? "default" : attempt.score >= 60 ? "secondary" : "destructive"}>
@@ -340,7 +395,7 @@ export const Dashboard = () => {
   const chartData = recentAttempts.slice(0, 5).reverse().map((attempt, index) => ({
     name: `#${index + 1}`,
     score: attempt.score,
-    date: new Date(attempt.attempt_date).toLocaleDateString()
+    date: new Date(attempt.submitted_at).toLocaleDateString()
   }));
 
   return (
@@ -495,6 +550,27 @@ export const Dashboard = () => {
               <CardDescription>Pick up where you left off</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {dueReviewCount > 0 && (
+                <div className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1">
+                      <h3 className="font-medium">
+                        {dueReviewCount} question{dueReviewCount === 1 ? '' : 's'} due for review
+                      </h3>
+                      <p className="text-sm text-muted-foreground">Revisit questions you missed before they slip away</p>
+                    </div>
+                    <Brain className="h-5 w-5 text-primary" />
+                  </div>
+                  <Link to="/review">
+                    <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                      <Button variant="outline" className="w-full">
+                        Start Review
+                        <ArrowRight className="h-4 w-4 ml-2" />
+                      </Button>
+                    </motion.div>
+                  </Link>
+                </div>
+              )}
               {nextModule ? (
                 <div className="p-4 border rounded-lg space-y-3">
                   <div className="flex items-start justify-between">
@@ -589,9 +665,9 @@ export const Dashboard = () => {
                       whileHover={{ scale: 1.01 }}
                     >
                       <div className="space-y-1">
-                        <p className="text-sm font-medium">Quiz Result</p>
+                        <p className="text-sm font-medium">{getModuleTitle(attempt.module_id) || 'Quiz Result'}</p>
                         <p className="text-xs text-muted-foreground">
-                          {new Date(attempt.attempt_date).toLocaleDateString()}
+                          {new Date(attempt.submitted_at).toLocaleDateString()}
                         </p>
                       </div>
                       <Badge variant={attempt.score >= 80 ? "default" : attempt.score >= 60 ? "secondary" : "destructive"}>
@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  FileUp,
+  Upload
+} from 'lucide-react';
+import { MathText } from '@/components/math/MathText';
+import { formatCorrectAnswer, QUESTION_TYPES } from '@/lib/quiz/grading';
+import { IMPORT_FORMATS, parseQuestionFile } from '@/lib/quiz/moodle-import';
+import { parseQtiPackage } from '@/lib/quiz/qti';
+import type { ImportPreview } from '@/lib/quiz/moodle-import';
+import type { Json } from '@/integrations/supabase/types';
+
+export const ImportQuestions = () => {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const [modules, setModules] = useState<{ id: string; title: string }[]>([]);
+  const [moduleId, setModuleId] = useState(searchParams.get('module') ?? '');
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  // Indices into preview.questions of the questions to import
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    // Redirect if not admin
+    if (profile && profile.role !== 'admin') {
+      navigate('/dashboard');
+      return;
+    }
+
+    if (profile?.role === 'admin') {
+      fetchModules();
+    }
+  }, [profile, navigate]);
+
+  const fetchModules = async () => {
+    const { data, error } = await supabase
+      .from('modules')
+      .select('id, title')
+      .order('title');
+
+    if (error) {
+      console.error('Error fetching modules:', error);
+      return;
+    }
+    setModules(data || []);
+  };
+
+  // Parsing is the dry run: nothing is written until the import is confirmed
+  const readFile = async (file: File) => {
+    setFileName(file.name);
+    try {
+      // QTI packages are zipped; GIFT and Moodle XML are plain text
+      const parsed = file.name.toLowerCase().endsWith('.zip')
+        ? parseQtiPackage(new Uint8Array(await file.arrayBuffer()))
+        : parseQuestionFile(await file.text());
+      setPreview(parsed);
+      setSelected(new Set(parsed.questions.map((_, index) => index)));
+    } catch (error) {
+      console.error('Error reading question file:', error);
+      setPreview(null);
+      toast({
+        variant: "destructive",
+        title: "Unreadable File",
+        description: "Choose a GIFT (.gift, .txt), Moodle XML (.xml) or QTI 2.1 (.zip) export."
+      });
+    }
+  };
+
+  const toggleQuestion = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const importQuestions = async () => {
+    if (!preview || !moduleId || selected.size === 0) return;
+
+    setImporting(true);
+    try {
+      const { error } = await supabase
+        .from('quizzes')
+        .insert(preview.questions
+          .filter((_, index) => selected.has(index))
+          .map(question => ({
+            module_id: moduleId,
+            question: question.question,
+            type: question.type,
+            options: question.options ? JSON.stringify(question.options) : null,
+            correct_answer: question.correct_answer,
+            answer_config: question.answer_config as Json,
+            explanation: question.explanation,
+            points: question.points,
+            tags: question.tags
+          })));
+
+      if (error) throw error;
+
+      toast({
+        title: "Questions Imported",
+        description: `${selected.size} question${selected.size === 1 ? '' : 's'} added to the module.`
+      });
+      navigate(`/admin/modules/${moduleId}/edit`);
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to import questions"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const typeLabel = (type: string) => QUESTION_TYPES.find(t => t.value === type)?.label ?? type;
+
+  return (
+    <motion.div
+      className="container mx-auto p-6 space-y-6 max-w-5xl"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Import Questions</h1>
+          <p className="text-muted-foreground">Bring in questions exported from Moodle as GIFT or Moodle XML, or from any QTI 2.1 tool</p>
+        </div>
+        <Link to="/dashboard">
+          <Button variant="ghost">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Source</CardTitle>
+          <CardDescription>
+            Multiple choice, true/false, short answer, numerical and matching questions are supported,
+            plus select-all and ordering questions from QTI packages.
+            You can review everything before it is saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label>Module</Label>
+            <Select value={moduleId} onValueChange={setModuleId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a module" />
+              </SelectTrigger>
+              <SelectContent>
+                {modules.map(module => (
+                  <SelectItem key={module.id} value={module.id}>{module.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="question-file">Question File</Label>
+            <Input
+              id="question-file"
+              type="file"
+              accept=".gift,.txt,.xml,.zip"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readFile(file);
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center">
+                    <FileUp className="h-5 w-5 mr-2" />
+                    {fileName}
+                  </CardTitle>
+                  <CardDescription>
+                    {IMPORT_FORMATS.find(format => format.value === preview.format)?.label} file:{' '}
+                    {preview.questions.length} question{preview.questions.length === 1 ? '' : 's'} can be imported,{' '}
+                    {preview.skipped.length} can't
+                  </CardDescription>
+                </div>
+                <Button onClick={importQuestions} disabled={!moduleId || selected.size === 0 || importing}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {importing ? 'Importing...' : `Import ${selected.size} Question${selected.size === 1 ? '' : 's'}`}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {preview.questions.map((question, index) => (
+                <div key={index} className="flex items-start space-x-3 p-3 border rounded-lg">
+                  <Checkbox
+                    checked={selected.has(index)}
+                    onCheckedChange={(checked) => toggleQuestion(index, checked === true)}
+                    aria-label={`Import ${question.name}`}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{question.name}</span>
+                      <Badge variant="outline">{typeLabel(question.type)}</Badge>
+                      {question.points !== 1 && <Badge variant="secondary">{question.points} points</Badge>}
+                      {question.tags.map(tag => (
+                        <Badge key={tag} variant="secondary">{tag}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-sm line-clamp-2"><MathText text={question.question} /></p>
+                    <p className="text-sm text-muted-foreground">
+                      Answer: <MathText text={formatCorrectAnswer(question)} />
+                    </p>
+                    {question.warnings.map(warning => (
+                      <p key={warning} className="text-sm text-secondary flex items-center">
+                        <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {preview.questions.length === 0 && (
+                <p className="text-center text-muted-foreground py-6">No questions in this file can be imported.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {preview.skipped.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Not Imported</CardTitle>
+                <CardDescription>These need to be recreated by hand</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {preview.skipped.map((item, index) => (
+                  <div key={index} className="flex items-start justify-between gap-4 text-sm p-2 border rounded">
+                    <span className="font-medium">{item.name || 'Untitled'}</span>
+                    <span className="text-muted-foreground text-right">{item.reason}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default ImportQuestions;
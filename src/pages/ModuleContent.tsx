@@ -16,10 +16,15 @@ import {
   PlayCircle,
   FileText,
   Image as ImageIcon,
-  ArrowRight
+  ArrowRight,
+  RotateCcw
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import CommentsSection from '@/components/CommentsSection';
+import { MathContent } from '@/components/math/MathContent';
+import { latestDraft, loadLocalDraft } from '@/lib/quiz/draft';
+import { drawQuestions } from '@/lib/quiz/draw';
+import type { DrawRule, QuizDraft } from '@/lib/quiz/types';
 
 interface Module {
   id: string;
@@ -36,7 +41,13 @@ interface Quiz {
   question: string;
   type: string;
   options?: any;
-  correct_answer: string;
+}
+
+interface OpenQuizSession {
+  id: string;
+  expires_at: string | null;
+  question_count: number;
+  answered: number;
 }
 
 export const ModuleContent = () => {
@@ -47,7 +58,10 @@ export const ModuleContent = () => {
   
   const [module, setModule] = useState<Module | null>(null);
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  // Questions per attempt, fewer than the bank when the quiz draws a subset
+  const [questionCount, setQuestionCount] = useState(0);
   const [progress, setProgress] = useState<any>(null);
+  const [openSession, setOpenSession] = useState<OpenQuizSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [completingModule, setCompletingModule] = useState(false);
 
@@ -55,6 +69,7 @@ export const ModuleContent = () => {
     if (id) {
       fetchModuleData();
       fetchProgress();
+      fetchOpenSession();
     }
   }, [id]);
 
@@ -71,15 +86,25 @@ export const ModuleContent = () => {
 
       // Fetch quizzes for this module
       const { data: quizzesData, error: quizzesError } = await supabase
-        .from('quizzes')
+        .from('quiz_questions')
         .select('*')
         .eq('module_id', id)
+        .is('deleted_at', null)
         .order('created_at');
 
       if (quizzesError) throw quizzesError;
 
+      const { data: settingsData } = await supabase
+        .from('quiz_settings')
+        .select('draw_rules')
+        .eq('module_id', id)
+        .maybeSingle();
+
+      const drawRules = (settingsData?.draw_rules || []) as unknown as DrawRule[];
+
       setModule(moduleData);
       setQuizzes(quizzesData || []);
+      setQuestionCount(drawQuestions(quizzesData || [], drawRules, id).length);
     } catch (error: any) {
       console.error('Error fetching module:', error);
       toast({
@@ -110,6 +135,39 @@ export const ModuleContent = () => {
     }
   };
 
+  // An unsubmitted attempt the student can pick up where they left off
+  const fetchOpenSession = async () => {
+    if (!user || !id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('quiz_sessions')
+        .select('id, expires_at, question_count, draft, draft_saved_at')
+        .eq('user_id', user.id)
+        .eq('module_id', id)
+        .eq('status', 'in_progress')
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        setOpenSession(null);
+        return;
+      }
+
+      const draft = latestDraft(data.id, data.draft as unknown as QuizDraft | null, data.draft_saved_at, loadLocalDraft(user.id, id));
+      setOpenSession({
+        id: data.id,
+        expires_at: data.expires_at,
+        question_count: data.question_count,
+        answered: Object.values(draft?.answers || {}).filter(answer => answer).length
+      });
+    } catch (error) {
+      console.error('Error fetching quiz session:', error);
+    }
+  };
+
   const markAsComplete = async () => {
     if (!user || !id) return;
     
@@ -141,14 +199,6 @@ export const ModuleContent = () => {
     }
   };
 
-  const renderContent = (content: string) => {
-    return content.split('\n').map((paragraph, index) => (
-      <p key={index} className="mb-4 text-muted-foreground leading-relaxed">
-        {paragraph}
-      </p>
-    ));
-  };
-
   if (loading) {
     return (
       <div className="container mx-auto p-6 space-y-6">
@@ -297,7 +347,7 @@ export const ModuleContent = () => {
             <CardTitle className="text-lg">Module Content</CardTitle>
           </CardHeader>
           <CardContent className="prose prose-sm max-w-none">
-            {renderContent(module.content)}
+            <MathContent content={module.content} />
           </CardContent>
         </Card>
       </motion.div>
@@ -313,14 +363,30 @@ export const ModuleContent = () => {
             <CardHeader>
               <CardTitle className="text-lg">Knowledge Check</CardTitle>
               <CardDescription>
-                Test your understanding with {quizzes.length} question{quizzes.length > 1 ? 's' : ''}
+                Test your understanding with {questionCount} question{questionCount > 1 ? 's' : ''}
               </CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
+              {openSession && (
+                <div className="flex items-start space-x-3 rounded-md border border-primary/30 bg-primary/5 p-3">
+                  <RotateCcw className="h-4 w-4 mt-0.5 text-primary" />
+                  <div className="text-sm">
+                    <p className="font-medium">You have a quiz in progress</p>
+                    <p className="text-muted-foreground">
+                      {openSession.answered} of {openSession.question_count} question{openSession.question_count > 1 ? 's' : ''} answered
+                      {openSession.expires_at && (
+                        new Date(openSession.expires_at) > new Date()
+                          ? ` · time left until ${new Date(openSession.expires_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                          : ' · time has run out, resume to submit your saved answers'
+                      )}
+                    </p>
+                  </div>
+                </div>
+              )}
               <Link to={`/quiz/${module.id}`}>
                 <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
                   <Button className="w-full">
-                    Start Quiz
+                    {openSession ? 'Resume Quiz' : 'Start Quiz'}
                     <ArrowRight className="h-4 w-4 ml-2" />
                   </Button>
                 </motion.div>
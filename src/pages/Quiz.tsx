@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -13,24 +14,57 @@ import {
   Check,
   X,
   Award,
+  Lock,
   RefreshCw
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
+import { MathContent } from '@/components/math/MathContent';
+import { MathText } from '@/components/math/MathText';
+import { HintPanel } from '@/components/quiz/HintPanel';
+import { QuestionInput } from '@/components/quiz/QuestionInput';
+import { QuizTimer } from '@/components/quiz/QuizTimer';
+import { fillTemplate, generateParams, questionSeed, usesVariables } from '@/lib/quiz/calculated';
+import { clearLocalDraft, latestDraft, loadLocalDraft, saveLocalDraft } from '@/lib/quiz/draft';
+import { applyOptionOrder, parseOptions } from '@/lib/quiz/draw';
+import { partLabel } from '@/lib/quiz/multipart';
+import { pointsAwarded } from '@/lib/quiz/scoring';
+import type { AbilityEstimate } from '@/lib/quiz/irt';
+import type {
+  AdaptiveState,
+  AnswerConfig,
+  AttemptAllowance,
+  AttemptLayout,
+  QuestionFeedback,
+  QuestionHint,
+  QuestionParams,
+  QuestionType,
+  QuizDraft,
+  QuizMode
+} from '@/lib/quiz/types';
+
+// Delay before answer changes are autosaved to the server
+const AUTOSAVE_DELAY_MS = 1500;
+
+// Answer keys stay on the server; see the grade-quiz edge function
 interface Quiz {
   id: string;
   question: string;
-  type: 'mcq' | 'numeric' | 'short';
+  type: QuestionType;
   options?: any;
-  correct_answer: string;
-  explanation?: string;
+  answer_config?: AnswerConfig;
+  points?: number | null;
+  hint_penalties: number[];
+  // Removed questions are kept only for attempts that already drew them
+  deleted_at?: string | null;
 }
 
-interface QuizAttempt {
-  quiz_id: string;
-  user_answer: string;
-  is_correct: boolean;
-}
+// Why another attempt can't start yet, or null if it can
+const attemptLimitMessage = (allowance: AttemptAllowance | null) => {
+  if (!allowance || allowance.can_start) return null;
+  return allowance.next_attempt_at
+    ? `You can try again after ${new Date(allowance.next_attempt_at).toLocaleString()}.`
+    : `You have used all ${allowance.max_attempts} attempts at this quiz.`;
+};
 
 export const Quiz = () => {
   const { moduleId } = useParams();
@@ -41,29 +75,83 @@ export const Quiz = () => {
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState<Record<string, QuestionFeedback>>({});
   const [showFeedback, setShowFeedback] = useState(false);
   const [quizCompleted, setQuizCompleted] = useState(false);
   const [score, setScore] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [points, setPoints] = useState({ earned: 0, possible: 0 });
+  const [results, setResults] = useState<QuestionFeedback[]>([]);
+  // Hint text is handed out by the grade-quiz function one hint at a time
+  const [revealedHints, setRevealedHints] = useState<Record<string, QuestionHint[]>>({});
+  const [revealingHint, setRevealingHint] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [advancing, setAdvancing] = useState(false);
+  // Opened by the grade-quiz function, which owns the start time, deadline and the
+  // seed that calculated question values are drawn from
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [seed, setSeed] = useState('');
+  const [deadline, setDeadline] = useState<number | null>(null);
+  // Exams give no feedback until submission, and hold back results until their release date if set
+  const [mode, setMode] = useState<QuizMode>('practice');
+  const [withheldUntil, setWithheldUntil] = useState<string | null>(null);
+  // Adaptive attempts are given one question at a time by the server
+  const [adaptive, setAdaptive] = useState<AdaptiveState | null>(null);
+  const [ability, setAbility] = useState<AbilityEstimate | null>(null);
+  // Attempts used against the module's limit; blocked when start was refused because of it
+  const [allowance, setAllowance] = useState<AttemptAllowance | null>(null);
+  const [blocked, setBlocked] = useState(false);
+  // Every question in the module's bank; an attempt asks the ones drawn for its session
+  const bankRef = useRef<Quiz[]>([]);
+  const timeSpentRef = useRef<Record<string, number>>({});
+  const questionShownAtRef = useRef(Date.now());
+  // When the server last saved the draft, by its own clock; local copies are stamped with it
+  const serverSavedAtRef = useRef<string | null>(null);
 
   useEffect(() => {
-    if (moduleId) {
+    if (moduleId && user) {
       fetchQuizzes();
     }
-  }, [moduleId]);
+  }, [moduleId, user?.id]);
+
+  // Autosave: immediately to localStorage, and to the server once answers settle
+  useEffect(() => {
+    if (!sessionId || quizCompleted || !user || !moduleId) return;
+
+    const draft: QuizDraft = {
+      answers,
+      time_spent: timeSpentRef.current,
+      position: currentQuestionIndex
+    };
+    saveLocalDraft(user.id, moduleId, { ...draft, session_id: sessionId, server_saved_at: serverSavedAtRef.current });
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: { action: 'save', module_id: moduleId, session_id: sessionId, ...draft }
+      });
+      if (error) {
+        console.error('Error autosaving quiz:', error);
+        return;
+      }
+      serverSavedAtRef.current = data.saved_at;
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [answers, currentQuestionIndex, sessionId, quizCompleted, moduleId, user]);
 
   const fetchQuizzes = async () => {
     try {
       const { data, error } = await supabase
-        .from('quizzes')
+        .from('quiz_questions')
         .select('*')
         .eq('module_id', moduleId)
         .order('created_at');
 
       if (error) throw error;
 
-      if (!data || data.length === 0) {
+      if (!data || !data.some(quiz => !quiz.deleted_at)) {
         toast({
           variant: "destructive",
           title: "No Quiz Available",
@@ -76,9 +164,12 @@ export const Quiz = () => {
       // Process the quiz data to ensure options is properly parsed
       const processedQuizzes = data.map(quiz => ({
         ...quiz,
-        options: Array.isArray(quiz.options) ? quiz.options : JSON.parse(quiz.options as string || '[]')
+        options: parseOptions(quiz.options),
+        answer_config: (quiz.answer_config || {}) as AnswerConfig,
+        hint_penalties: Array.isArray(quiz.hint_penalties) ? quiz.hint_penalties.map(Number) : []
       }));
-      setQuizzes(processedQuizzes);
+      bankRef.current = processedQuizzes;
+      await startSession();
     } catch (error: any) {
       console.error('Error fetching quizzes:', error);
       toast({
@@ -92,68 +183,250 @@ export const Quiz = () => {
     }
   };
 
+  // Questions drawn for an attempt, in order, with options as shuffled for it
+  const layoutQuizzes = (layout: AttemptLayout | null) => {
+    const bank = bankRef.current;
+    return layout
+      ? layout.question_ids
+          .map(id => bank.find(quiz => quiz.id === id))
+          .filter((quiz): quiz is Quiz => !!quiz)
+          .map(quiz => ({ ...quiz, options: applyOptionOrder(quiz.options, layout.option_orders[quiz.id]) }))
+      : bank.filter(quiz => !quiz.deleted_at);
+  };
+
+  // Opens a session, or reopens the one in progress and restores its latest draft
+  const startSession = async () => {
+    const { data, error } = await supabase.functions.invoke('grade-quiz', {
+      body: { action: 'start', module_id: moduleId }
+    });
+
+    // Refused when the attempt limit is used up or the wait since the last attempt hasn't passed
+    if (error instanceof FunctionsHttpError && error.context.status === 403) {
+      setAllowance(await error.context.json());
+      setBlocked(true);
+      return;
+    }
+
+    if (error) throw error;
+
+    const layout: AttemptLayout | null = data.layout;
+    const attemptQuizzes = layoutQuizzes(layout);
+    setQuizzes(attemptQuizzes);
+    setAdaptive(layout?.adaptive ?? null);
+
+    // Convert the server deadline to the local clock
+    const clockOffset = new Date(data.server_time).getTime() - Date.now();
+    setSessionId(data.session_id);
+    setSeed(data.seed || '');
+    setMode(data.mode || 'practice');
+    setDeadline(data.expires_at ? new Date(data.expires_at).getTime() - clockOffset : null);
+    setRevealedHints(data.revealed_hints || {});
+    setAllowance(data.allowance ?? null);
+    setBlocked(false);
+
+    const draft = latestDraft(data.session_id, data.draft, data.draft_saved_at, loadLocalDraft(user.id, moduleId));
+    serverSavedAtRef.current = data.draft_saved_at ?? null;
+    if (draft) {
+      setAnswers(draft.answers || {});
+      timeSpentRef.current = draft.time_spent || {};
+      setCurrentQuestionIndex(Math.min(Math.max(draft.position || 0, 0), attemptQuizzes.length - 1));
+
+      if (Object.keys(draft.answers || {}).length > 0) {
+        toast({
+          title: "Quiz Resumed",
+          description: "Your saved answers have been restored."
+        });
+      }
+    }
+    questionShownAtRef.current = Date.now();
+  };
+
+  const questionParams = useMemo(() => {
+    const params: Record<string, QuestionParams> = {};
+    quizzes
+      .filter(quiz => usesVariables(quiz.type))
+      .forEach(quiz => {
+        params[quiz.id] = generateParams(quiz.answer_config?.variables, questionSeed(seed, quiz.id));
+      });
+    return params;
+  }, [quizzes, seed]);
+
+  const questionText = (quiz: Quiz) =>
+    usesVariables(quiz.type) ? fillTemplate(quiz.question, questionParams[quiz.id] ?? {}) : quiz.question;
+
   const handleAnswerSelect = (answer: string) => {
     const currentQuiz = quizzes[currentQuestionIndex];
     setAnswers(prev => ({ ...prev, [currentQuiz.id]: answer }));
   };
 
+  // Accumulates time on the current question; revisiting a question adds to its total
+  const recordTimeSpent = () => {
+    const currentQuiz = quizzes[currentQuestionIndex];
+    if (!currentQuiz) return;
+
+    const now = Date.now();
+    timeSpentRef.current[currentQuiz.id] = (timeSpentRef.current[currentQuiz.id] || 0) + now - questionShownAtRef.current;
+    questionShownAtRef.current = now;
+  };
+
   const handleNext = () => {
+    recordTimeSpent();
     if (currentQuestionIndex < quizzes.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
       setShowFeedback(false);
+    } else if (adaptive && !adaptive.finished) {
+      advanceAdaptive();
+    }
+  };
+
+  // Sends the answers so far so the server can pick the next question, or end the quiz
+  const advanceAdaptive = async () => {
+    setAdvancing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: {
+          action: 'next',
+          module_id: moduleId,
+          session_id: sessionId,
+          answers,
+          time_spent: timeSpentRef.current,
+          position: currentQuestionIndex + 1
+        }
+      });
+
+      if (error) throw error;
+
+      serverSavedAtRef.current = data.saved_at;
+      const layout: AttemptLayout = data.layout;
+      const attemptQuizzes = layoutQuizzes(layout);
+      setQuizzes(attemptQuizzes);
+      setAdaptive(layout.adaptive ?? null);
+      if (currentQuestionIndex < attemptQuizzes.length - 1) {
+        setCurrentQuestionIndex(prev => prev + 1);
+        setShowFeedback(false);
+      }
+    } catch (error) {
+      console.error('Error choosing the next question:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load the next question"
+      });
+    } finally {
+      setAdvancing(false);
     }
   };
 
   const handlePrevious = () => {
+    recordTimeSpent();
     if (currentQuestionIndex > 0) {
       setCurrentQuestionIndex(prev => prev - 1);
       setShowFeedback(false);
     }
   };
 
-  const showAnswerFeedback = () => {
-    setShowFeedback(true);
+  const showAnswerFeedback = async () => {
+    const currentQuiz = quizzes[currentQuestionIndex];
+
+    setChecking(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: {
+          action: 'check',
+          module_id: moduleId,
+          session_id: sessionId,
+          quiz_id: currentQuiz.id,
+          answer: answers[currentQuiz.id]
+        }
+      });
+
+      if (error) throw error;
+
+      setFeedback(prev => ({ ...prev, [currentQuiz.id]: data as QuestionFeedback }));
+      setShowFeedback(true);
+    } catch (error) {
+      console.error('Error checking answer:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to check your answer"
+      });
+    } finally {
+      setChecking(false);
+    }
   };
 
-  const submitQuiz = async () => {
-    if (!user || !moduleId) return;
+  const revealHint = async () => {
+    const currentQuiz = quizzes[currentQuestionIndex];
 
-    setSubmitting(true);
+    setRevealingHint(true);
     try {
-      // Calculate score
-      let correctAnswers = 0;
-      const attempts: QuizAttempt[] = [];
-
-      quizzes.forEach(quiz => {
-        const userAnswer = answers[quiz.id];
-        const isCorrect = userAnswer === quiz.correct_answer;
-        if (isCorrect) correctAnswers++;
-        
-        attempts.push({
-          quiz_id: quiz.id,
-          user_answer: userAnswer || '',
-          is_correct: isCorrect
-        });
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: {
+          action: 'hint',
+          module_id: moduleId,
+          session_id: sessionId,
+          quiz_id: currentQuiz.id
+        }
       });
 
-      const finalScore = Math.round((correctAnswers / quizzes.length) * 100);
+      if (error) throw error;
 
-      // Save to database
-      const { error } = await supabase
-        .from('quiz_attempts')
-        .insert({
-          user_id: user.id,
-          quiz_id: quizzes[0]?.id, // Use a valid quiz id to satisfy FK; groups attempts by module via first quiz
-          score: finalScore,
-          answers: attempts as any
-        });
+      setRevealedHints(prev => ({
+        ...prev,
+        [currentQuiz.id]: [...(prev[currentQuiz.id] || []), data.hint as QuestionHint]
+      }));
+    } catch (error) {
+      console.error('Error revealing hint:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to show the hint"
+      });
+    } finally {
+      setRevealingHint(false);
+    }
+  };
+
+  const submitQuiz = async () => {
+    if (!user || !moduleId || !sessionId || submitting) return;
+
+    recordTimeSpent();
+    setSubmitting(true);
+    try {
+      // Graded and recorded server-side
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: {
+          action: 'submit',
+          module_id: moduleId,
+          session_id: sessionId,
+          answers,
+          time_spent: timeSpentRef.current
+        }
+      });
 
       if (error) throw error;
 
+      const finalScore: number = data.score ?? 0;
       setScore(finalScore);
+      setCorrectCount(data.correct_count ?? 0);
+      setPoints({ earned: data.points_earned ?? 0, possible: data.points_possible ?? 0 });
+      setResults(data.results || []);
+      setAbility(data.ability ?? null);
+      setWithheldUntil(data.released ? null : data.feedback_release_at);
+      setAllowance(data.allowance ?? null);
       setQuizCompleted(true);
+      setDeadline(null);
+      clearLocalDraft(user.id, moduleId);
 
-      toast({
+      toast(data.late ? {
+        variant: "destructive",
+        title: "Submitted After the Time Limit",
+        description: "Time ran out before your answers arrived, so your last autosaved answers were graded."
+      } : !data.released ? {
+        title: "Exam Submitted",
+        description: "Your answers have been recorded."
+      } : {
         title: "Quiz Submitted! 🎯",
         description: `You scored ${finalScore}% - ${finalScore >= 80 ? 'Excellent!' : finalScore >= 60 ? 'Good job!' : 'Keep practicing!'}`
       });
@@ -169,12 +442,41 @@ export const Quiz = () => {
     }
   };
 
-  const restartQuiz = () => {
+  const handleTimeUp = () => {
+    if (quizCompleted) return;
+
+    toast({
+      title: "Time's Up",
+      description: "Your quiz is being submitted automatically."
+    });
+    submitQuiz();
+  };
+
+  const restartQuiz = async () => {
+    setSessionId(null);
     setAnswers({});
+    setFeedback({});
+    timeSpentRef.current = {};
     setCurrentQuestionIndex(0);
     setShowFeedback(false);
     setQuizCompleted(false);
     setScore(0);
+    setResults([]);
+    setRevealedHints({});
+    setWithheldUntil(null);
+    setAdaptive(null);
+    setAbility(null);
+
+    try {
+      await startSession();
+    } catch (error) {
+      console.error('Error starting quiz:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to start a new attempt"
+      });
+    }
   };
 
   if (loading) {
@@ -194,7 +496,45 @@ export const Quiz = () => {
     );
   }
 
+  if (blocked) {
+    return (
+      <motion.div
+        className="container mx-auto p-6 space-y-6 max-w-2xl"
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <Lock className="h-16 w-16 mb-4 text-muted-foreground" />
+            <h2 className="text-2xl font-bold mb-2">
+              {allowance?.next_attempt_at ? 'Not Available Yet' : 'No Attempts Left'}
+            </h2>
+            <p className="text-muted-foreground mb-6">{attemptLimitMessage(allowance)}</p>
+            <div className="flex space-x-4">
+              <Link to="/quiz-results">
+                <Button variant="outline">View Results</Button>
+              </Link>
+              <Link to={`/modules/${moduleId}`}>
+                <Button>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Module
+                </Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+    );
+  }
+
   if (quizCompleted) {
+    const retryMessage = attemptLimitMessage(allowance);
+    const attemptsLeft = allowance?.max_attempts != null
+      ? allowance.max_attempts - allowance.attempts_used
+      : null;
+    const multiPartResults = results.filter(result => result.parts?.length);
+
     return (
       <motion.div 
         className="container mx-auto p-6 space-y-6 max-w-2xl"
@@ -218,37 +558,99 @@ export const Quiz = () => {
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.5, delay: 0.3 }}
             >
-              Quiz Complete!
+              {withheldUntil ? 'Exam Submitted' : 'Quiz Complete!'}
             </motion.h2>
+
+            {withheldUntil ? (
+              <motion.p
+                className="text-muted-foreground mb-6"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.4 }}
+              >
+                Your answers have been recorded. Your score and the correct answers will be available on{' '}
+                {new Date(withheldUntil).toLocaleString()}.
+              </motion.p>
+            ) : (
+              <>
+                <motion.div 
+                  className="text-4xl font-bold mb-4"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 0.4 }}
+                >
+                  {score}%
+                </motion.div>
+
+                <motion.p 
+                  className="text-muted-foreground mb-6"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 0.5 }}
+                >
+                  You got {correctCount} out of {quizzes.length} questions fully correct,
+                  earning {points.earned} of {points.possible} points
+                </motion.p>
+
+                {ability && (
+                  <p className="text-sm text-muted-foreground mb-6">
+                    Estimated ability: {ability.ability.toFixed(2)} ± {ability.standard_error.toFixed(2)}{' '}
+                    ({ability.ability >= 0.5 ? 'above' : ability.ability <= -0.5 ? 'below' : 'around'} the level of an average question)
+                  </p>
+                )}
+              </>
+            )}
+
+            {multiPartResults.length > 0 && (
+              <motion.div
+                className="w-full space-y-3 mb-6 text-left"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.55 }}
+              >
+                {multiPartResults.map(result => {
+                  const quiz = quizzes.find(q => q.id === result.quiz_id);
+                  return (
+                    <div key={result.quiz_id} className="rounded-md border p-3 space-y-1">
+                      <p className="text-sm font-medium line-clamp-2">{quiz ? <MathText text={questionText(quiz)} /> : 'Multi-part question'}</p>
+                      {result.parts?.map((part, index) => (
+                        <div key={index} className="flex items-center justify-between text-sm">
+                          <span className="flex items-center">
+                            {part.is_correct ? <Check className="h-4 w-4 mr-2 text-accent" /> : <X className="h-4 w-4 mr-2 text-destructive" />}
+                            Part {partLabel(index)}{part.carried_forward && ' (carried forward)'}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {pointsAwarded(part.credit * part.weight, result.points_possible)} / {pointsAwarded(part.weight, result.points_possible)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </motion.div>
+            )}
             
-            <motion.div 
-              className="text-4xl font-bold mb-4"
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: 0.4 }}
-            >
-              {score}%
-            </motion.div>
-            
-            <motion.p 
-              className="text-muted-foreground mb-6"
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: 0.5 }}
-            >
-              You got {quizzes.filter(q => answers[q.id] === q.correct_answer).length} out of {quizzes.length} questions correct
-            </motion.p>
-            
+            {(retryMessage || attemptsLeft !== null) && (
+              <p className="text-sm text-muted-foreground mb-4">
+                {retryMessage ?? `${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`}
+              </p>
+            )}
+
             <motion.div 
               className="flex space-x-4"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.5, delay: 0.6 }}
             >
-              <Button onClick={restartQuiz} variant="outline">
+              <Button onClick={restartQuiz} variant="outline" disabled={!!retryMessage}>
                 <RefreshCw className="h-4 w-4 mr-2" />
                 Try Again
               </Button>
+              {!withheldUntil && sessionId && (
+                <Link to={`/quiz-results/${sessionId}`}>
+                  <Button variant="outline">Review Answers</Button>
+                </Link>
+              )}
               <Link to={`/modules/${moduleId}`}>
                 <Button>
                   <ArrowLeft className="h-4 w-4 mr-2" />
@@ -263,9 +665,15 @@ export const Quiz = () => {
   }
 
   const currentQuiz = quizzes[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / quizzes.length) * 100;
+  // Adaptive quizzes may end before their maximum, so progress counts toward it until they do
+  const plannedCount = adaptive && !adaptive.finished ? adaptive.max_questions : quizzes.length;
+  const progress = ((currentQuestionIndex + 1) / plannedCount) * 100;
+  const hasNextQuestion = currentQuestionIndex < quizzes.length - 1 || (!!adaptive && !adaptive.finished);
   const selectedAnswer = answers[currentQuiz?.id];
-  const isCorrect = selectedAnswer === currentQuiz?.correct_answer;
+  const currentFeedback = showFeedback ? feedback[currentQuiz?.id] : undefined;
+  const isCorrect = currentFeedback?.is_correct ?? false;
+  const isPartial = !isCorrect && (currentFeedback?.credit ?? 0) > 0;
+  const questionPoints = Number(currentQuiz?.points ?? 1);
 
   return (
     <motion.div 
@@ -283,9 +691,25 @@ export const Quiz = () => {
           </Button>
         </Link>
         
-        <Badge variant="outline">
-          Question {currentQuestionIndex + 1} of {quizzes.length}
-        </Badge>
+        <div className="flex items-center space-x-2">
+          {deadline !== null && (
+            <QuizTimer deadline={deadline} onExpire={handleTimeUp} />
+          )}
+          {mode === 'exam' && (
+            <Badge>Exam</Badge>
+          )}
+          {allowance?.max_attempts != null && (
+            <Badge variant="outline">
+              Attempt {Math.min(allowance.attempts_used + 1, allowance.max_attempts)} of {allowance.max_attempts}
+            </Badge>
+          )}
+          <Badge variant="secondary">
+            {questionPoints} point{questionPoints === 1 ? '' : 's'}
+          </Badge>
+          <Badge variant="outline">
+            Question {currentQuestionIndex + 1} of {adaptive && !adaptive.finished ? `up to ${plannedCount}` : quizzes.length}
+          </Badge>
+        </div>
       </div>
 
       {/* Progress */}
@@ -317,64 +741,69 @@ export const Quiz = () => {
           <Card>
             <CardHeader>
               <CardTitle className="text-xl leading-relaxed">
-                {currentQuiz?.question}
+                {currentQuiz && <MathText text={questionText(currentQuiz)} />}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              {currentQuiz?.options?.map((option: string, index: number) => (
-                <motion.div
-                  key={index}
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.99 }}
-                >
-                  <Button
-                    variant={selectedAnswer === option ? "default" : "outline"}
-                    className={`w-full justify-start text-left h-auto p-4 ${
-                      showFeedback && selectedAnswer === option
-                        ? isCorrect
-                          ? 'border-accent bg-accent/10 text-accent'
-                          : 'border-destructive bg-destructive/10 text-destructive'
-                        : ''
-                    }`}
-                    onClick={() => handleAnswerSelect(option)}
-                    disabled={showFeedback}
-                  >
-                    <div className="flex items-center justify-between w-full">
-                      <span>{option}</span>
-                      {showFeedback && selectedAnswer === option && (
-                        <motion.div
-                          initial={{ scale: 0 }}
-                          animate={{ scale: 1 }}
-                          transition={{ duration: 0.2 }}
-                        >
-                          {isCorrect ? (
-                            <Check className="h-5 w-5" />
-                          ) : (
-                            <X className="h-5 w-5" />
-                          )}
-                        </motion.div>
-                      )}
-                      {showFeedback && option === currentQuiz.correct_answer && selectedAnswer !== option && (
-                        <motion.div
-                          initial={{ scale: 0 }}
-                          animate={{ scale: 1 }}
-                          transition={{ duration: 0.2 }}
-                          className="text-accent"
-                        >
-                          <Check className="h-5 w-5" />
-                        </motion.div>
-                      )}
-                    </div>
-                  </Button>
-                </motion.div>
-              ))}
+              {currentQuiz && (
+                <QuestionInput
+                  question={currentQuiz}
+                  params={questionParams[currentQuiz.id] ?? {}}
+                  points={questionPoints}
+                  value={selectedAnswer}
+                  feedback={currentFeedback}
+                  disabled={showFeedback}
+                  onChange={handleAnswerSelect}
+                />
+              )}
+
+              {currentQuiz && (
+                <HintPanel
+                  penalties={currentQuiz.hint_penalties}
+                  revealed={revealedHints[currentQuiz.id] || []}
+                  disabled={showFeedback || revealingHint}
+                  onReveal={revealHint}
+                />
+              )}
             </CardContent>
           </Card>
         </motion.div>
       </AnimatePresence>
 
+      {/* Answer Feedback */}
+      {currentFeedback && currentQuiz?.type !== 'mcq' && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <Card className={isCorrect ? 'border-accent' : isPartial ? 'border-secondary' : 'border-destructive'}>
+            <CardContent className="pt-6 space-y-2">
+              <div className={`flex items-center font-medium ${isCorrect ? 'text-accent' : isPartial ? 'text-secondary' : 'text-destructive'}`}>
+                {isCorrect ? <Check className="h-5 w-5 mr-2" /> : <X className="h-5 w-5 mr-2" />}
+                {isCorrect
+                  ? 'Correct!'
+                  : isPartial
+                    ? `Partially correct: ${currentFeedback.points_awarded} of ${currentFeedback.points_possible} points`
+                    : 'Not quite.'}
+              </div>
+              {currentFeedback.feedback && (
+                <p className="text-sm text-muted-foreground">{currentFeedback.feedback}</p>
+              )}
+              {!isCorrect && !currentFeedback.parts && (
+                <p className="text-sm">
+                  Correct answer: <span className="font-medium">
+                    <MathText text={currentFeedback.correct_answer} />
+                  </span>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
       {/* Explanation */}
-      {showFeedback && currentQuiz?.explanation && (
+      {currentFeedback?.explanation && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -385,7 +814,7 @@ export const Quiz = () => {
               <CardTitle className="text-lg">Explanation</CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-muted-foreground">{currentQuiz.explanation}</p>
+              <MathContent content={currentFeedback.explanation} paragraphClassName="mb-2 last:mb-0 text-muted-foreground" />
             </CardContent>
           </Card>
         </motion.div>
@@ -401,24 +830,24 @@ export const Quiz = () => {
         <Button 
           variant="outline" 
           onClick={handlePrevious}
-          disabled={currentQuestionIndex === 0}
+          disabled={currentQuestionIndex === 0 || !!adaptive}
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
           Previous
         </Button>
 
         <div className="flex space-x-3">
-          {!showFeedback && selectedAnswer && (
-            <Button onClick={showAnswerFeedback}>
-              Check Answer
+          {mode === 'practice' && !showFeedback && selectedAnswer && (
+            <Button onClick={showAnswerFeedback} disabled={checking}>
+              {checking ? 'Checking...' : 'Check Answer'}
             </Button>
           )}
 
-          {showFeedback && (
+          {(showFeedback || mode === 'exam') && (
             <>
-              {currentQuestionIndex < quizzes.length - 1 ? (
-                <Button onClick={handleNext}>
-                  Next
+              {hasNextQuestion ? (
+                <Button onClick={handleNext} disabled={advancing}>
+                  {advancing ? 'Loading...' : 'Next'}
                   <ArrowRight className="h-4 w-4 ml-2" />
                 </Button>
               ) : (
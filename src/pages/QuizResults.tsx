@@ -6,25 +6,40 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   ArrowLeft, 
+  ArrowRight,
   Award, 
   TrendingUp,
   Calendar,
   Target
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { averageGrade, DEFAULT_SCORE_POLICY, moduleGrades, SCORE_POLICIES } from '@/lib/quiz/attempts';
+import { isFeedbackReleased, QUIZ_MODES } from '@/lib/quiz/modes';
+import type { QuizMode, QuizSettings } from '@/lib/quiz/types';
 
-interface QuizAttempt {
+interface QuizSession {
   id: string;
-  score: number;
-  attempt_date: string;
-  quiz_id: string;
+  /** Null until an exam's results are released. */
+  score: number | null;
+  submitted_at: string;
+  module_id: string;
+  mode: QuizMode;
+  feedback_release_at: string | null;
+  modules?: {
+    title: string;
+  } | null;
 }
 
+type ModuleSettings = Pick<QuizSettings, 'score_policy' | 'max_attempts'>;
+
 export const QuizResults = () => {
   const { user } = useAuth();
-  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [allAttempts, setAllAttempts] = useState<QuizSession[]>([]);
+  const [modeFilter, setModeFilter] = useState<QuizMode | 'all'>('all');
+  const [moduleSettings, setModuleSettings] = useState<Record<string, ModuleSettings>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -36,13 +51,20 @@ export const QuizResults = () => {
   const fetchQuizResults = async () => {
     try {
       const { data, error } = await supabase
-        .from('quiz_attempts')
-        .select('*')
+        .from('quiz_attempt_results')
+        .select('id, score, submitted_at, module_id, mode, feedback_release_at, modules(title)')
         .eq('user_id', user?.id)
-        .order('attempt_date', { ascending: false });
+        .order('submitted_at', { ascending: false });
 
       if (error) throw error;
-      setAttempts(data || []);
+      setAllAttempts((data || []) as QuizSession[]);
+
+      const { data: settingsData, error: settingsError } = await supabase
+        .from('quiz_settings')
+        .select('module_id, score_policy, max_attempts');
+
+      if (settingsError) throw settingsError;
+      setModuleSettings(Object.fromEntries((settingsData || []).map(({ module_id, ...settings }) => [module_id, settings])));
     } catch (error) {
       console.error('Error fetching quiz results:', error);
     } finally {
@@ -50,21 +72,43 @@ export const QuizResults = () => {
     }
   };
 
-  const averageScore = attempts.length > 0 
-    ? attempts.reduce((sum, attempt) => sum + attempt.score, 0) / attempts.length
-    : 0;
+  const attempts = modeFilter === 'all'
+    ? allAttempts
+    : allAttempts.filter(attempt => attempt.mode === modeFilter);
+
+  // Exam scores awaiting their release date are withheld, so they are left out of the stats
+  const releasedAttempts = allAttempts
+    .filter(attempt => isFeedbackReleased(attempt))
+    .map(attempt => ({ ...attempt, score: attempt.score ?? 0 }));
+  const scoredAttempts = modeFilter === 'all'
+    ? releasedAttempts
+    : releasedAttempts.filter(attempt => attempt.mode === modeFilter);
+
+  // Each module counts once, by the attempt its score policy picks; practice is history only
+  const grades = moduleGrades(
+    releasedAttempts,
+    Object.fromEntries(Object.entries(moduleSettings).map(([moduleId, settings]) => [moduleId, settings.score_policy]))
+  );
+  const averageScore = averageGrade(grades);
 
-  const bestScore = attempts.length > 0 
-    ? Math.max(...attempts.map(a => a.score))
+  const policyLabel = (moduleId: string) =>
+    SCORE_POLICIES.find(p => p.value === (moduleSettings[moduleId]?.score_policy ?? DEFAULT_SCORE_POLICY))?.label;
+
+  // Counts submitted exam attempts, as the attempt limit does; practice is unlimited
+  const attemptsUsed = (moduleId: string) =>
+    allAttempts.filter(a => a.module_id === moduleId && a.mode === 'exam').length;
+
+  const bestScore = scoredAttempts.length > 0 
+    ? Math.max(...scoredAttempts.map(a => a.score))
     : 0;
 
-  const chartData = attempts
+  const chartData = scoredAttempts
     .slice(0, 10)
     .reverse()
     .map((attempt, index) => ({
-      attempt: `#${attempts.length - index}`,
+      attempt: `#${scoredAttempts.length - index}`,
       score: attempt.score,
-      date: new Date(attempt.attempt_date).toLocaleDateString()
+      date: new Date(attempt.submitted_at).toLocaleDateString()
     }));
 
   if (loading) {
@@ -108,11 +152,24 @@ export const QuizResults = () => {
         </Link>
       </div>
 
+      {allAttempts.length > 0 && (
+        <Tabs value={modeFilter} onValueChange={(value) => setModeFilter(value as QuizMode | 'all')}>
+          <TabsList>
+            <TabsTrigger value="all">All Attempts</TabsTrigger>
+            {QUIZ_MODES.map(mode => (
+              <TabsTrigger key={mode.value} value={mode.value}>{mode.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      )}
+
       {attempts.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12 text-center">
             <Award className="h-12 w-12 text-muted-foreground mb-4" />
-            <h3 className="text-lg font-medium mb-2">No quiz attempts yet</h3>
+            <h3 className="text-lg font-medium mb-2">
+              {allAttempts.length === 0 ? 'No quiz attempts yet' : 'No attempts in this mode'}
+            </h3>
             <p className="text-muted-foreground mb-4">
               Complete some module quizzes to see your results here
             </p>
@@ -134,12 +191,14 @@ export const QuizResults = () => {
             >
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Average Score</CardTitle>
+                  <CardTitle className="text-sm font-medium">Overall Grade</CardTitle>
                   <Target className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{averageScore.toFixed(1)}%</div>
-                  <p className="text-xs text-muted-foreground">Across all attempts</p>
+                  <p className="text-xs text-muted-foreground">
+                    Across {grades.length} module{grades.length === 1 ? '' : 's'}; practice isn't counted
+                  </p>
                 </CardContent>
               </Card>
             </motion.div>
@@ -217,6 +276,51 @@ export const QuizResults = () => {
             </motion.div>
           )}
 
+          {/* Module Grades */}
+          {grades.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, delay: 0.45 }}
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle>Module Grades</CardTitle>
+                  <CardDescription>The score that counts for each module</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {grades.map(grade => {
+                      const maxAttempts = moduleSettings[grade.module_id]?.max_attempts;
+                      return (
+                        <div key={grade.module_id} className="flex items-center justify-between p-4 border rounded-lg">
+                          <div>
+                            <p className="text-sm font-medium">
+                              {allAttempts.find(a => a.module_id === grade.module_id)?.modules?.title || 'Module'}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {policyLabel(grade.module_id)} · {attemptsUsed(grade.module_id)}
+                              {maxAttempts ? ` of ${maxAttempts}` : ''} attempt{attemptsUsed(grade.module_id) === 1 && !maxAttempts ? '' : 's'} used
+                            </p>
+                          </div>
+                          <Badge
+                            variant={
+                              grade.score >= 80 ? "default" :
+                              grade.score >= 60 ? "secondary" :
+                              "destructive"
+                            }
+                          >
+                            {grade.score.toFixed(1)}%
+                          </Badge>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* Recent Attempts */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -242,7 +346,7 @@ export const QuizResults = () => {
                         <Calendar className="h-4 w-4 text-muted-foreground" />
                         <div>
                           <p className="text-sm font-medium">
-                            {new Date(attempt.attempt_date).toLocaleDateString('en-US', {
+                            {new Date(attempt.submitted_at).toLocaleDateString('en-US', {
                               year: 'numeric',
                               month: 'short',
                               day: 'numeric',
@@ -250,18 +354,37 @@ export const QuizResults = () => {
                               minute: '2-digit'
                             })}
                           </p>
-                          <p className="text-xs text-muted-foreground">Quiz attempt</p>
+                          <p className="text-xs text-muted-foreground">{attempt.modules?.title || 'Quiz attempt'}</p>
                         </div>
                       </div>
-                      <Badge 
-                        variant={
-                          attempt.score >= 80 ? "default" : 
-                          attempt.score >= 60 ? "secondary" : 
-                          "destructive"
-                        }
-                      >
-                        {attempt.score.toFixed(1)}%
-                      </Badge>
+                      <div className="flex items-center space-x-2">
+                        <Badge variant="outline">
+                          {attempt.mode === 'exam' ? 'Exam' : 'Practice'}
+                        </Badge>
+                        {isFeedbackReleased(attempt) ? (
+                          <>
+                            <Badge 
+                              variant={
+                                attempt.score! >= 80 ? "default" : 
+                                attempt.score! >= 60 ? "secondary" : 
+                                "destructive"
+                              }
+                            >
+                              {attempt.score!.toFixed(1)}%
+                            </Badge>
+                            <Link to={`/quiz-results/${attempt.id}`}>
+                              <Button variant="ghost" size="sm">
+                                Review
+                                <ArrowRight className="h-4 w-4 ml-1" />
+                              </Button>
+                            </Link>
+                          </>
+                        ) : (
+                          <Badge variant="secondary">
+                            Results on {new Date(attempt.feedback_release_at!).toLocaleDateString()}
+                          </Badge>
+                        )}
+                      </div>
                     </motion.div>
                   ))}
                 </div>
@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  Clock,
+  Lightbulb,
+  Lock,
+  X
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MathContent } from '@/components/math/MathContent';
+import { MathText } from '@/components/math/MathText';
+import { formatGivenAnswer } from '@/lib/quiz/grading';
+import { isFeedbackReleased } from '@/lib/quiz/modes';
+import { parsePartAnswers, partLabel } from '@/lib/quiz/multipart';
+import { pointsAwarded } from '@/lib/quiz/scoring';
+import type { QuizMode, ReviewedQuestion } from '@/lib/quiz/types';
+import { formatTimeSpent } from '@/lib/utils';
+
+interface Attempt {
+  id: string;
+  module_id: string;
+  // Null until an exam's results are released
+  score: number | null;
+  points_earned: number | null;
+  points_possible: number;
+  correct_count: number | null;
+  submitted_at: string | null;
+  mode: QuizMode;
+  feedback_release_at: string | null;
+  modules?: {
+    title: string;
+  } | null;
+}
+
+const resultColor = (question: Pick<ReviewedQuestion, 'is_correct' | 'credit'>) =>
+  question.is_correct ? 'text-accent' : question.credit > 0 ? 'text-secondary' : 'text-destructive';
+
+export const QuizReview = () => {
+  const { attemptId } = useParams();
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [questions, setQuestions] = useState<ReviewedQuestion[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = profile?.role === 'admin';
+  const released = !!attempt && (isAdmin || isFeedbackReleased(attempt));
+
+  useEffect(() => {
+    if (user && attemptId) {
+      fetchAttempt();
+    }
+  }, [user?.id, attemptId, isAdmin]);
+
+  const fetchAttempt = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempt_results')
+        .select('id, module_id, score, points_earned, points_possible, correct_count, submitted_at, mode, feedback_release_at, modules(title)')
+        .eq('id', attemptId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setAttempt(data as Attempt | null);
+
+      // Answer keys and explanations come from the grade-quiz function, which applies the release rules
+      if (!data || !(isAdmin || isFeedbackReleased(data))) return;
+
+      const { data: review, error: reviewError } = await supabase.functions.invoke('grade-quiz', {
+        body: { action: 'review', module_id: data.module_id, session_id: data.id }
+      });
+
+      if (reviewError) throw reviewError;
+      setQuestions(review.questions || []);
+    } catch (error) {
+      console.error('Error fetching attempt review:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load this attempt"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6 space-y-6 max-w-4xl">
+        <motion.div
+          className="animate-pulse space-y-6"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="h-8 bg-muted rounded w-48"></div>
+          <div className="h-32 bg-muted rounded"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </motion.div>
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="flex items-center justify-between">
+      <div>
+        <h1 className="text-3xl font-bold">Attempt Review</h1>
+        <p className="text-muted-foreground">{attempt?.modules?.title || 'Quiz attempt'}</p>
+      </div>
+      <Link to="/quiz-results">
+        <Button variant="ghost">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Results
+        </Button>
+      </Link>
+    </div>
+  );
+
+  if (!attempt || !released) {
+    return (
+      <motion.div
+        className="container mx-auto p-6 space-y-6 max-w-4xl"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        {header}
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <Lock className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">
+              {attempt ? 'Results not released yet' : 'Attempt not found'}
+            </h3>
+            <p className="text-muted-foreground">
+              {attempt
+                ? `You can review this exam from ${new Date(attempt.feedback_release_at!).toLocaleString()}.`
+                : 'This attempt doesn\'t exist or hasn\'t been submitted.'}
+            </p>
+          </CardContent>
+        </Card>
+      </motion.div>
+    );
+  }
+
+  const totalTime = questions.reduce((sum, q) => sum + (q.time_spent_ms ?? 0), 0);
+  const current = questions[currentIndex];
+  const partAnswers = current?.type === 'multipart' ? parsePartAnswers(current.answer) : [];
+
+  return (
+    <motion.div
+      className="container mx-auto p-6 space-y-6 max-w-4xl"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      {header}
+
+      {/* Summary */}
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="space-y-1">
+              <div className="text-3xl font-bold">{attempt.score!.toFixed(1)}%</div>
+              <p className="text-sm text-muted-foreground">
+                {attempt.correct_count} of {questions.length} fully correct · {attempt.points_earned} of {attempt.points_possible} points
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Badge variant="outline">{attempt.mode === 'exam' ? 'Exam' : 'Practice'}</Badge>
+              <Badge variant="outline">
+                <Clock className="h-3 w-3 mr-1" />
+                {formatTimeSpent(totalTime)}
+              </Badge>
+              {attempt.submitted_at && (
+                <Badge variant="secondary">{new Date(attempt.submitted_at).toLocaleString()}</Badge>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {questions.map((question, index) => (
+              <Button
+                key={index}
+                size="sm"
+                variant={index === currentIndex ? 'default' : 'outline'}
+                className={index === currentIndex ? '' : resultColor(question)}
+                onClick={() => setCurrentIndex(index)}
+                aria-label={`Question ${index + 1}, ${question.is_correct ? 'correct' : question.credit > 0 ? 'partially correct' : 'incorrect'}`}
+              >
+                {index + 1}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Question */}
+      {current && (
+        <motion.div
+          key={currentIndex}
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ duration: 0.3 }}
+        >
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <CardDescription>Question {currentIndex + 1} of {questions.length}</CardDescription>
+                  <CardTitle className="text-lg leading-relaxed">
+                    {current.question !== null
+                      ? <MathText text={current.question} />
+                      : 'This question has been changed or removed since the attempt.'}
+                  </CardTitle>
+                </div>
+                <div className="flex flex-col items-end gap-2 shrink-0">
+                  <Badge variant="secondary">
+                    {current.points_awarded} / {current.points_possible} pt{current.points_possible === 1 ? '' : 's'}
+                  </Badge>
+                  <Badge variant="outline">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {formatTimeSpent(current.time_spent_ms)}
+                  </Badge>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className={`flex items-center font-medium ${resultColor(current)}`}>
+                {current.is_correct ? <Check className="h-4 w-4 mr-2" /> : <X className="h-4 w-4 mr-2" />}
+                {current.is_correct ? 'Correct' : current.credit > 0 ? 'Partially correct' : 'Incorrect'}
+              </div>
+
+              {current.type === 'multipart' && current.parts ? (
+                <div className="space-y-3">
+                  {current.parts.map((part, index) => (
+                    <div key={index} className="rounded-md border p-3 space-y-1 text-sm">
+                      <div className="flex items-start justify-between gap-3">
+                        <p className="font-medium">
+                          {partLabel(index)} <MathText text={current.part_prompts[index] ?? ''} />
+                        </p>
+                        <span className="text-muted-foreground shrink-0">
+                          {pointsAwarded(part.credit * part.weight, current.points_possible)} / {pointsAwarded(part.weight, current.points_possible)}
+                        </span>
+                      </div>
+                      <p>
+                        Your answer:{' '}
+                        <span className={`font-medium ${resultColor(part)}`}>
+                          {formatGivenAnswer(current.answer_config?.parts?.[index] ?? { type: 'short' }, partAnswers[index] ?? '') || 'No answer'}
+                        </span>
+                        {part.carried_forward && <Badge variant="secondary" className="ml-2">Carried forward</Badge>}
+                      </p>
+                      {!part.is_correct && (
+                        <p>
+                          Correct answer: <MathText text={part.correct_answer} className="font-medium" />
+                        </p>
+                      )}
+                      {part.feedback && <p className="text-muted-foreground">{part.feedback}</p>}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="rounded-md border p-3">
+                    <p className="text-sm text-muted-foreground mb-1">Your answer</p>
+                    <p className="font-medium">
+                      {(current.type ? formatGivenAnswer({ type: current.type, answer_config: current.answer_config }, current.answer) : current.answer) || 'No answer'}
+                    </p>
+                  </div>
+                  {current.correct_answer !== null && (
+                    <div className="rounded-md border p-3">
+                      <p className="text-sm text-muted-foreground mb-1">Correct answer</p>
+                      <p className="font-medium"><MathText text={current.correct_answer} /></p>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {(current.type === 'mcq' || current.type === 'multi') && current.options.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <p className="text-muted-foreground">Options, as shown in this attempt:</p>
+                  <ol className="list-decimal list-inside space-y-1">
+                    {current.options.map((option, index) => (
+                      <li key={index}><MathText text={option} /></li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {current.hints_used > 0 && (
+                <p className="flex items-center text-sm text-muted-foreground">
+                  <Lightbulb className="h-4 w-4 mr-2" />
+                  {current.hints_used} hint{current.hints_used === 1 ? '' : 's'} used,
+                  costing {Math.round(current.hint_penalty * 100)}% of this question's points
+                </p>
+              )}
+
+              {current.explanation && (
+                <div className="p-4 bg-muted/50 rounded-lg">
+                  <p className="text-sm font-medium mb-1">Explanation</p>
+                  <div className="text-sm text-muted-foreground">
+                    <MathContent content={current.explanation} paragraphClassName="mb-2 last:mb-0" />
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
+      {questions.length === 0 && (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No answers were recorded for this attempt.
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Navigation */}
+      {questions.length > 1 && (
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setCurrentIndex(prev => prev - 1)}
+            disabled={currentIndex === 0}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setCurrentIndex(prev => prev + 1)}
+            disabled={currentIndex === questions.length - 1}
+          >
+            Next
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default QuizReview;
@@ -0,0 +1,422 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, ArrowRight, Brain, CalendarClock, Check, CheckCircle, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MathContent } from '@/components/math/MathContent';
+import { MathText } from '@/components/math/MathText';
+import { QuestionInput } from '@/components/quiz/QuestionInput';
+import { fillTemplate, generateParams, questionSeed, usesVariables } from '@/lib/quiz/calculated';
+import { parseOptions, shuffle } from '@/lib/quiz/draw';
+import { createRandom } from '@/lib/quiz/random';
+import { isDue } from '@/lib/quiz/review';
+import type { AnswerConfig, QuestionFeedback, QuestionParams, QuestionType, ReviewSchedule } from '@/lib/quiz/types';
+
+interface ReviewItem {
+  id: string;
+  quiz_id: string;
+  module_id: string;
+  seed: string;
+  interval_days: number;
+  lapses: number;
+  due_at: string;
+}
+
+interface ReviewQuestion {
+  id: string;
+  question: string;
+  type: QuestionType;
+  options: string[];
+  answer_config: AnswerConfig;
+  points: number;
+}
+
+interface ReviewOutcome {
+  result: QuestionFeedback;
+  schedule: ReviewSchedule;
+}
+
+const formatInterval = (days: number) => days === 1 ? 'tomorrow' : `in ${days} days`;
+
+export const Review = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [questions, setQuestions] = useState<Record<string, ReviewQuestion>>({});
+  const [moduleTitles, setModuleTitles] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  // The due items being worked through, fixed when the review starts
+  const [queue, setQueue] = useState<ReviewItem[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [outcome, setOutcome] = useState<ReviewOutcome | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [passedCount, setPassedCount] = useState(0);
+
+  useEffect(() => {
+    if (user) {
+      fetchReviewItems();
+    }
+  }, [user?.id]);
+
+  const fetchReviewItems = async () => {
+    try {
+      const { data: itemsData, error: itemsError } = await supabase
+        .from('review_items')
+        .select('id, quiz_id, module_id, seed, interval_days, lapses, due_at')
+        .eq('user_id', user!.id)
+        // Exam misses stay out of the queue until the exam's results are released
+        .or(`hidden_until.is.null,hidden_until.lte.${new Date().toISOString()}`)
+        .order('due_at');
+
+      if (itemsError) throw itemsError;
+
+      const quizIds = [...new Set((itemsData || []).map(item => item.quiz_id))];
+      const moduleIds = [...new Set((itemsData || []).map(item => item.module_id))];
+
+      const [{ data: questionsData, error: questionsError }, { data: modulesData, error: modulesError }] = await Promise.all([
+        supabase
+          .from('quiz_questions')
+          .select('id, question, type, options, answer_config, points')
+          .in('id', quizIds)
+          .is('deleted_at', null),
+        supabase
+          .from('modules')
+          .select('id, title')
+          .in('id', moduleIds)
+      ]);
+
+      if (questionsError) throw questionsError;
+      if (modulesError) throw modulesError;
+
+      setQuestions(Object.fromEntries((questionsData || []).map(q => [q.id, {
+        id: q.id,
+        question: q.question || '',
+        type: q.type,
+        options: parseOptions(q.options),
+        answer_config: (q.answer_config || {}) as AnswerConfig,
+        points: Number(q.points ?? 1)
+      } as ReviewQuestion])));
+      setModuleTitles(Object.fromEntries((modulesData || []).map(m => [m.id, m.title])));
+      setItems((itemsData || []).filter(item => (questionsData || []).some(q => q.id === item.quiz_id)));
+    } catch (error) {
+      console.error('Error fetching review items:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load your review queue"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const paramsFor = (item: ReviewItem): QuestionParams => {
+    const question = questions[item.quiz_id];
+    return question && usesVariables(question.type)
+      ? generateParams(question.answer_config.variables, questionSeed(item.seed, item.quiz_id))
+      : {};
+  };
+
+  const questionText = (item: ReviewItem) => {
+    const question = questions[item.quiz_id];
+    if (!question) return '';
+    return usesVariables(question.type) ? fillTemplate(question.question, paramsFor(item)) : question.question;
+  };
+
+  // Ordering items and matching options are stored alphabetically, so they're shuffled for each review
+  const presentedQuestion = (item: ReviewItem): ReviewQuestion => {
+    const question = questions[item.quiz_id];
+    return question.type === 'ordering' || question.type === 'matching'
+      ? { ...question, options: shuffle(question.options, createRandom(`${item.seed}:options:${item.quiz_id}`)) }
+      : question;
+  };
+
+  const startReview = () => {
+    setQueue(items.filter(item => isDue(item)));
+    setPosition(0);
+    setAnswer('');
+    setOutcome(null);
+    setPassedCount(0);
+  };
+
+  const checkAnswer = async () => {
+    if (!queue) return;
+    const item = queue[position];
+    setChecking(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('grade-quiz', {
+        body: { action: 'answer_review', module_id: item.module_id, review_item_id: item.id, answer }
+      });
+
+      if (error) throw error;
+
+      setOutcome(data);
+      if (data.schedule.repetitions > 0) setPassedCount(count => count + 1);
+    } catch (error) {
+      console.error('Error checking review answer:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to check your answer. Please try again."
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const nextItem = () => {
+    setPosition(position + 1);
+    setAnswer('');
+    setOutcome(null);
+  };
+
+  const finishReview = async () => {
+    setQueue(null);
+    setLoading(true);
+    await fetchReviewItems();
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-6 space-y-6 max-w-4xl">
+        <motion.div
+          className="animate-pulse space-y-6"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="h-8 bg-muted rounded w-48"></div>
+          <div className="h-48 bg-muted rounded"></div>
+        </motion.div>
+      </div>
+    );
+  }
+
+  // Working through the queue
+  if (queue) {
+    if (position >= queue.length) {
+      return (
+        <motion.div
+          className="container mx-auto p-6 max-w-2xl"
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.5 }}
+        >
+          <Card className="text-center">
+            <CardHeader>
+              <CheckCircle className="h-12 w-12 text-accent mx-auto" />
+              <CardTitle className="text-2xl">Review Complete</CardTitle>
+              <CardDescription>
+                You recalled {passedCount} of {queue.length} question{queue.length === 1 ? '' : 's'}. Missed ones come back tomorrow.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={finishReview}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Review Queue
+              </Button>
+            </CardContent>
+          </Card>
+        </motion.div>
+      );
+    }
+
+    const item = queue[position];
+    const question = presentedQuestion(item);
+    const result = outcome?.result;
+    const isPartial = !!result && !result.is_correct && result.credit > 0;
+
+    return (
+      <motion.div
+        className="container mx-auto p-6 space-y-6 max-w-4xl"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" onClick={finishReview}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            End Review
+          </Button>
+          <div className="flex items-center space-x-2">
+            <Badge variant="secondary">{moduleTitles[item.module_id] || 'Module'}</Badge>
+            <Badge variant="outline">
+              Question {position + 1} of {queue.length}
+            </Badge>
+          </div>
+        </div>
+
+        <Progress value={(position / queue.length) * 100} className="w-full" />
+
+        <AnimatePresence mode="wait">
+          <motion.div
+            key={item.id}
+            initial={{ opacity: 0, x: 50 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -50 }}
+            transition={{ duration: 0.3 }}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl leading-relaxed">
+                  <MathText text={questionText(item)} />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <QuestionInput
+                  key={item.id}
+                  question={question}
+                  params={paramsFor(item)}
+                  points={question.points}
+                  value={answer}
+                  feedback={result}
+                  disabled={!!outcome || checking}
+                  onChange={setAnswer}
+                />
+              </CardContent>
+            </Card>
+          </motion.div>
+        </AnimatePresence>
+
+        {result && outcome && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <Card className={result.is_correct ? 'border-accent' : isPartial ? 'border-secondary' : 'border-destructive'}>
+              <CardContent className="pt-6 space-y-2">
+                <div className={`flex items-center font-medium ${result.is_correct ? 'text-accent' : isPartial ? 'text-secondary' : 'text-destructive'}`}>
+                  {result.is_correct ? <Check className="h-5 w-5 mr-2" /> : <X className="h-5 w-5 mr-2" />}
+                  {result.is_correct ? 'Correct!' : isPartial ? 'Partially correct.' : 'Not quite.'}
+                </div>
+                {result.feedback && (
+                  <p className="text-sm text-muted-foreground">{result.feedback}</p>
+                )}
+                {!result.is_correct && (
+                  <p className="text-sm">
+                    Correct answer: <span className="font-medium">
+                      <MathText text={result.correct_answer} />
+                    </span>
+                  </p>
+                )}
+                <p className="flex items-center text-sm text-muted-foreground">
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  Next review {formatInterval(outcome.schedule.interval_days)}
+                </p>
+                {result.explanation && (
+                  <MathContent content={result.explanation} paragraphClassName="mb-2 last:mb-0 text-muted-foreground" />
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        <div className="flex justify-end">
+          {outcome ? (
+            <Button onClick={nextItem}>
+              {position + 1 < queue.length ? 'Next Question' : 'Finish'}
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          ) : (
+            <Button onClick={checkAnswer} disabled={!answer || checking}>
+              {checking ? 'Checking...' : 'Check Answer'}
+            </Button>
+          )}
+        </div>
+      </motion.div>
+    );
+  }
+
+  const dueItems = items.filter(item => isDue(item));
+  const upcomingItems = items.filter(item => !isDue(item));
+
+  return (
+    <motion.div
+      className="container mx-auto p-6 space-y-6 max-w-4xl"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Review</h1>
+          <p className="text-muted-foreground">
+            Questions you missed come back at growing intervals until you remember them.
+          </p>
+        </div>
+        <Link to="/dashboard">
+          <Button variant="ghost">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Dashboard
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Due Now</CardTitle>
+            <CardDescription>
+              {dueItems.length > 0
+                ? `${dueItems.length} question${dueItems.length === 1 ? '' : 's'} to review`
+                : 'Nothing to review right now'}
+            </CardDescription>
+          </div>
+          <Button onClick={startReview} disabled={dueItems.length === 0}>
+            <Brain className="h-4 w-4 mr-2" />
+            Start Review
+          </Button>
+        </CardHeader>
+        {dueItems.length > 0 && (
+          <CardContent className="space-y-3">
+            {dueItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between p-3 border rounded gap-4">
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium line-clamp-2"><MathText text={questionText(item)} /></p>
+                  <p className="text-xs text-muted-foreground">{moduleTitles[item.module_id]}</p>
+                </div>
+                {item.lapses > 0 && (
+                  <Badge variant="outline" className="shrink-0">Missed {item.lapses}× in review</Badge>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        )}
+      </Card>
+
+      {upcomingItems.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Coming Up</CardTitle>
+            <CardDescription>Scheduled for later review</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {upcomingItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between p-3 border rounded gap-4">
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium line-clamp-2"><MathText text={questionText(item)} /></p>
+                  <p className="text-xs text-muted-foreground">{moduleTitles[item.module_id]}</p>
+                </div>
+                <Badge variant="secondary" className="shrink-0">
+                  {new Date(item.due_at).toLocaleDateString()}
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </motion.div>
+  );
+};
+
+export default Review;
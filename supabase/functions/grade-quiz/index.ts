@@ -0,0 +1,1035 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.4";
+import { advanceAdaptiveLayout, startAdaptiveLayout } from "../../../src/lib/quiz/adaptive.ts";
+import { attemptAllowance } from "../../../src/lib/quiz/attempts.ts";
+import { fillTemplate, usesVariables } from "../../../src/lib/quiz/calculated.ts";
+import { applyOptionOrder, buildAttemptLayout, parseOptions } from "../../../src/lib/quiz/draw.ts";
+import { formatCorrectAnswer } from "../../../src/lib/quiz/grading.ts";
+import { calibrateItems, estimateAbility, itemDifficulty } from "../../../src/lib/quiz/irt.ts";
+import { isFeedbackReleased } from "../../../src/lib/quiz/modes.ts";
+import { isDue, reviewQuality, scheduleReview } from "../../../src/lib/quiz/review.ts";
+import { gradeQuestion, paramsFor, summarizeResults } from "../../../src/lib/quiz/scoring.ts";
+import type {
+  AnswerConfig,
+  AttemptAllowance,
+  AttemptLayout,
+  Difficulty,
+  DrawRule,
+  PartFeedback,
+  QuestionFeedback,
+  QuestionHint,
+  QuestionParams,
+  QuestionType,
+  QuizDraft,
+  QuizMode,
+  QuizSettings,
+  ReviewedQuestion,
+  ReviewSchedule
+} from "../../../src/lib/quiz/types.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+interface GradeQuizRequest {
+  action: 'start' | 'save' | 'check' | 'hint' | 'next' | 'submit' | 'review' | 'answer_review' | 'calibrate' | 'regrade';
+  module_id: string;
+  // answer_review: the item in the student's review queue being answered
+  review_item_id?: string;
+  // save, check, hint, next and submit: the session opened by start; review: a submitted session
+  session_id?: string;
+  // check and hint: the question asked about; regrade: the question regraded
+  quiz_id?: string;
+  // regrade: why the question was regraded, for the audit trail, and whether to only count what would change
+  reason?: string;
+  preview?: boolean;
+  // check and answer_review: a single answer to grade
+  answer?: string;
+  // save, next and submit: every answer in the attempt and the time spent on each, keyed by quiz id
+  answers?: Record<string, string>;
+  time_spent?: Record<string, number>;
+  // save and next: the question the student is on
+  position?: number;
+}
+
+interface SessionRow {
+  id: string;
+  seed: string | null;
+  status: 'in_progress' | 'submitted';
+  mode: QuizMode;
+  feedback_release_at: string | null;
+  started_at: string;
+  expires_at: string | null;
+  draft: QuizDraft | null;
+  draft_saved_at: string | null;
+  layout: AttemptLayout | null;
+  hints_used: Record<string, number>;
+}
+
+const SESSION_COLUMNS =
+  'id, seed, status, mode, feedback_release_at, started_at, expires_at, draft, draft_saved_at, layout, hints_used';
+
+// Allowance for network latency when a timed quiz is auto-submitted at the deadline
+const GRACE_PERIOD_MS = 30 * 1000;
+
+interface QuizRow {
+  id: string;
+  question: string;
+  type: QuestionType;
+  correct_answer: string;
+  answer_config: AnswerConfig | null;
+  explanation: string | null;
+  options: unknown;
+  difficulty: Difficulty | null;
+  irt_difficulty: number | null;
+  tags: string[];
+  points: number;
+  hints: QuestionHint[];
+  version: number;
+  deleted_at: string | null;
+}
+
+interface RegradedResponseRow {
+  id: string;
+  session_id: string;
+  answer: string;
+  is_correct: boolean;
+  credit: number;
+  points_awarded: number;
+  points_possible: number;
+  hints_used: number;
+  quiz_version: number | null;
+  quiz_sessions: {
+    user_id: string;
+    seed: string | null;
+    score: number;
+    mode: QuizMode;
+    feedback_release_at: string | null;
+  };
+}
+
+interface ReviewItemRow extends ReviewSchedule {
+  id: string;
+  quiz_id: string;
+  seed: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Hints the student has revealed so far, so a resumed attempt can show them again
+const revealedHints = (quizzes: QuizRow[], session: SessionRow): Record<string, QuestionHint[]> =>
+  Object.fromEntries(quizzes
+    .filter(quiz => session.hints_used?.[quiz.id])
+    .map(quiz => [quiz.id, (quiz.hints ?? []).slice(0, session.hints_used[quiz.id])]));
+
+const sessionResponse = (session: SessionRow, quizzes: QuizRow[], allowance: AttemptAllowance) => ({
+  session_id: session.id,
+  seed: session.seed,
+  mode: session.mode,
+  started_at: session.started_at,
+  expires_at: session.expires_at,
+  draft: session.draft,
+  draft_saved_at: session.draft_saved_at,
+  layout: session.layout,
+  revealed_hints: revealedHints(quizzes, session),
+  allowance,
+  // Lets the client correct for clock skew when showing the countdown
+  server_time: new Date().toISOString()
+});
+
+// Counts the student's submitted attempts in the module's current mode against its limits.
+// Practice can be retried freely, and practice attempts never use up exam attempts.
+const fetchAllowance = async (
+  userId: string,
+  moduleId: string,
+  limits: Pick<QuizSettings, 'mode' | 'max_attempts' | 'cooldown_minutes'> | null,
+  now: Date
+): Promise<AttemptAllowance> => {
+  const mode = limits?.mode ?? 'practice';
+  const { data: submitted, error } = await supabaseAdmin
+    .from('quiz_sessions')
+    .select('submitted_at')
+    .eq('user_id', userId)
+    .eq('module_id', moduleId)
+    .eq('mode', mode)
+    .eq('status', 'submitted');
+
+  if (error) {
+    console.error('Error counting attempts:', error);
+    throw new Error(`Failed to count attempts: ${error.message}`);
+  }
+
+  return attemptAllowance(
+    mode === 'exam' ? limits : null,
+    (submitted ?? []).map(s => s.submitted_at).filter((date): date is string => !!date),
+    now
+  );
+};
+
+// Postgres error code for a duplicate key
+const UNIQUE_VIOLATION = '23505';
+
+// Responses are read a page at a time, as the API caps how many rows one request returns
+const RESPONSE_PAGE_SIZE = 1000;
+
+// Ids go in the request URL, so long lists of them are sent a slice at a time
+const ID_CHUNK_SIZE = 200;
+
+const chunked = <T>(items: T[]): T[][] =>
+  Array.from({ length: Math.ceil(items.length / ID_CHUNK_SIZE) }, (_, i) => items.slice(i * ID_CHUNK_SIZE, (i + 1) * ID_CHUNK_SIZE));
+
+const isAdmin = async (userId: string) => {
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return profile?.role === 'admin';
+};
+
+// Where each question sits on the ability scale, for adaptive selection
+const adaptiveItems = (quizzes: QuizRow[]) =>
+  quizzes.map(quiz => ({ id: quiz.id, difficulty: itemDifficulty(quiz) }));
+
+// Ability from the credit earned on each question asked
+const abilityFrom = (results: QuestionFeedback[], quizzes: QuizRow[]) => {
+  const byId = new Map(quizzes.map(q => [q.id, q]));
+  return estimateAbility(results.map(r => ({ score: r.credit, difficulty: itemDifficulty(byId.get(r.quiz_id)!) })));
+};
+
+const isPastDeadline = (session: SessionRow, now: Date) =>
+  !!session.expires_at && now.getTime() > new Date(session.expires_at).getTime() + GRACE_PERIOD_MS;
+
+// Questions asked in a session, in the order shown. Sessions started before
+// question banks have no layout and ask every question not yet removed, as the quiz page shows.
+const sessionQuizzes = (quizzes: QuizRow[], session: SessionRow): QuizRow[] => {
+  if (!session.layout) return quizzes.filter(q => !q.deleted_at);
+
+  const byId = new Map(quizzes.map(q => [q.id, q]));
+  return session.layout.question_ids
+    .map(id => byId.get(id))
+    .filter((q): q is QuizRow => !!q);
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Identify the caller from their session token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const user = userData.user;
+    const {
+      action,
+      module_id,
+      session_id,
+      review_item_id,
+      quiz_id,
+      reason,
+      preview = false,
+      answer,
+      answers = {},
+      time_spent = {},
+      position = 0
+    }: GradeQuizRequest = await req.json();
+
+    if (!module_id) {
+      return jsonResponse({ error: 'module_id is required' }, 400);
+    }
+
+    const { data: quizzes, error: quizzesError } = await supabaseAdmin
+      .from('quizzes')
+      .select('id, question, type, correct_answer, answer_config, explanation, options, difficulty, irt_difficulty, tags, points, hints, version, deleted_at')
+      .eq('module_id', module_id)
+      .order('created_at');
+
+    if (quizzesError) {
+      console.error('Error fetching quizzes:', quizzesError);
+      throw new Error(`Failed to load quizzes: ${quizzesError.message}`);
+    }
+
+    // Deleted questions are still graded and reviewed in the attempts that asked them,
+    // but new attempts and review queues only use the rest
+    const activeQuizzes = (quizzes ?? []).filter(q => !q.deleted_at);
+
+    if (!quizzes || quizzes.length === 0) {
+      return jsonResponse({ error: 'This module has no quiz questions' }, 404);
+    }
+
+    if (action === 'start') {
+      const [{ data: openSession, error: openSessionError }, { data: settings }, { data: accommodation }] = await Promise.all([
+        // Reloading the page picks up the open session, so the clock keeps running
+        supabaseAdmin
+          .from('quiz_sessions')
+          .select(SESSION_COLUMNS)
+          .eq('user_id', user.id)
+          .eq('module_id', module_id)
+          .eq('status', 'in_progress')
+          .order('started_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabaseAdmin
+          .from('quiz_settings')
+          .select('mode, feedback_release_at, max_attempts, cooldown_minutes, time_limit_minutes, draw_rules, shuffle_questions, shuffle_options, adaptive, adaptive_target_se, adaptive_max_questions')
+          .eq('module_id', module_id)
+          .maybeSingle(),
+        supabaseAdmin
+          .from('student_accommodations')
+          .select('time_multiplier')
+          .eq('user_id', user.id)
+          .maybeSingle()
+      ]);
+
+      if (openSessionError) {
+        console.error('Error fetching open session:', openSessionError);
+        throw new Error(`Failed to load session: ${openSessionError.message}`);
+      }
+
+      const now = new Date();
+      const allowance = await fetchAllowance(user.id, module_id, settings, now);
+
+      if (openSession) {
+        return jsonResponse(sessionResponse(openSession, quizzes, allowance));
+      }
+
+      if (!allowance.can_start) {
+        return jsonResponse({
+          error: allowance.next_attempt_at
+            ? 'The next attempt at this quiz is not available yet'
+            : 'No attempts at this quiz remain',
+          ...allowance
+        }, 403);
+      }
+
+      if (activeQuizzes.length === 0) {
+        return jsonResponse({ error: 'This module has no quiz questions' }, 404);
+      }
+
+      const seed = crypto.randomUUID();
+      const drawn = buildAttemptLayout(activeQuizzes, {
+        draw_rules: (settings?.draw_rules ?? []) as DrawRule[],
+        shuffle_questions: settings?.shuffle_questions ?? false,
+        shuffle_options: settings?.shuffle_options ?? false
+      }, seed);
+      // Adaptive attempts draw as usual, then ask from what was drawn one question at a time
+      const layout = settings?.adaptive
+        ? startAdaptiveLayout(drawn, adaptiveItems(activeQuizzes), settings, seed)
+        : drawn;
+      const timeLimitMs = settings?.time_limit_minutes
+        ? settings.time_limit_minutes * 60 * 1000 * Number(accommodation?.time_multiplier ?? 1)
+        : null;
+
+      const { data: session, error: sessionError } = await supabaseAdmin
+        .from('quiz_sessions')
+        .insert({
+          user_id: user.id,
+          module_id,
+          status: 'in_progress',
+          mode: settings?.mode ?? 'practice',
+          feedback_release_at: settings?.mode === 'exam' ? settings.feedback_release_at : null,
+          seed,
+          layout,
+          question_count: layout.question_ids.length,
+          started_at: now.toISOString(),
+          expires_at: timeLimitMs ? new Date(now.getTime() + timeLimitMs).toISOString() : null
+        })
+        .select(SESSION_COLUMNS)
+        .single();
+
+      if (sessionError) {
+        console.error('Error starting session:', sessionError);
+        throw new Error(`Failed to start session: ${sessionError.message}`);
+      }
+
+      console.log(`Started quiz session ${session.id} for module ${module_id}, user ${user.id}`);
+      return jsonResponse(sessionResponse(session, quizzes, allowance));
+    }
+
+    if (action === 'answer_review') {
+      if (!review_item_id) {
+        return jsonResponse({ error: 'review_item_id is required' }, 400);
+      }
+
+      const { data: item, error: itemError } = await supabaseAdmin
+        .from('review_items')
+        .select('id, quiz_id, seed, ease_factor, interval_days, repetitions, lapses, due_at')
+        .eq('id', review_item_id)
+        .eq('user_id', user.id)
+        .eq('module_id', module_id)
+        .maybeSingle<ReviewItemRow>();
+
+      if (itemError) {
+        console.error('Error fetching review item:', itemError);
+        throw new Error(`Failed to load review item: ${itemError.message}`);
+      }
+
+      const quiz = item && activeQuizzes.find(q => q.id === item.quiz_id);
+      if (!item || !quiz) {
+        return jsonResponse({ error: 'Review item not found' }, 404);
+      }
+
+      const now = new Date();
+      if (!isDue(item, now)) {
+        return jsonResponse({ error: 'This question is not due for review yet', due_at: item.due_at }, 409);
+      }
+
+      // Hints aren't offered in review, so the answer alone sets the next interval
+      const result = gradeQuestion(quiz, answer, item.seed);
+      const schedule = scheduleReview(item, reviewQuality(result.credit), now);
+
+      const { error: updateError } = await supabaseAdmin
+        .from('review_items')
+        .update({
+          ...schedule,
+          // Calculated questions come back with new values next time
+          seed: crypto.randomUUID(),
+          last_reviewed_at: now.toISOString()
+        })
+        .eq('id', item.id);
+
+      if (updateError) {
+        console.error('Error scheduling review item:', updateError);
+        throw new Error(`Failed to schedule review: ${updateError.message}`);
+      }
+
+      return jsonResponse({ result, schedule });
+    }
+
+    if (action === 'calibrate') {
+      if (!(await isAdmin(user.id))) {
+        return jsonResponse({ error: 'Only admins can calibrate questions' }, 403);
+      }
+
+      const responses: { session_id: string; quiz_id: string; score: number }[] = [];
+      for (let from = 0; ; from += RESPONSE_PAGE_SIZE) {
+        const { data: page, error: responsesError } = await supabaseAdmin
+          .from('quiz_responses')
+          .select('session_id, quiz_id, credit')
+          .in('quiz_id', activeQuizzes.map(q => q.id))
+          .order('id')
+          .range(from, from + RESPONSE_PAGE_SIZE - 1);
+
+        if (responsesError) {
+          console.error('Error fetching responses:', responsesError);
+          throw new Error(`Failed to load responses: ${responsesError.message}`);
+        }
+
+        (page ?? []).forEach(r => {
+          if (r.quiz_id) responses.push({ session_id: r.session_id, quiz_id: r.quiz_id, score: Number(r.credit) });
+        });
+        if (!page || page.length < RESPONSE_PAGE_SIZE) break;
+      }
+
+      const calibration = calibrateItems(responses);
+      const calibratedAt = new Date().toISOString();
+      const updates = await Promise.all(Object.entries(calibration).map(([id, item]) =>
+        supabaseAdmin
+          .from('quizzes')
+          .update({
+            irt_difficulty: item.difficulty,
+            irt_standard_error: item.standard_error,
+            irt_response_count: item.responses,
+            irt_calibrated_at: calibratedAt
+          })
+          .eq('id', id)
+      ));
+
+      const updateError = updates.find(u => u.error)?.error;
+      if (updateError) {
+        console.error('Error saving calibration:', updateError);
+        throw new Error(`Failed to save calibration: ${updateError.message}`);
+      }
+
+      console.log(`Calibrated ${updates.length} of ${activeQuizzes.length} questions in module ${module_id}`);
+      return jsonResponse({ calibrated: calibration, responses: responses.length });
+    }
+
+    if (action === 'regrade') {
+      if (!(await isAdmin(user.id))) {
+        return jsonResponse({ error: 'Only admins can regrade questions' }, 403);
+      }
+
+      const quiz = activeQuizzes.find(q => q.id === quiz_id);
+      if (!quiz) {
+        return jsonResponse({ error: 'Question not found' }, 404);
+      }
+
+      // Responses graded against an earlier version, or recorded before versions were
+      const responses: RegradedResponseRow[] = [];
+      for (let from = 0; ; from += RESPONSE_PAGE_SIZE) {
+        const { data: page, error: responsesError } = await supabaseAdmin
+          .from('quiz_responses')
+          .select('id, session_id, answer, is_correct, credit, points_awarded, points_possible, hints_used, quiz_version, quiz_sessions!inner(user_id, seed, score, mode, feedback_release_at)')
+          .eq('quiz_id', quiz.id)
+          .or(`quiz_version.is.null,quiz_version.lt.${quiz.version}`)
+          .order('id')
+          .range(from, from + RESPONSE_PAGE_SIZE - 1);
+
+        if (responsesError) {
+          console.error('Error fetching responses:', responsesError);
+          throw new Error(`Failed to load responses: ${responsesError.message}`);
+        }
+
+        responses.push(...((page ?? []) as RegradedResponseRow[]));
+        if (!page || page.length < RESPONSE_PAGE_SIZE) break;
+      }
+
+      // Each answer is regraded with the values and hints its attempt had
+      const changed = responses
+        .map(response => ({
+          response,
+          result: gradeQuestion(quiz, response.answer, response.quiz_sessions.seed ?? '', response.hints_used)
+        }))
+        .filter(({ response, result }) =>
+          result.is_correct !== response.is_correct ||
+          Math.round(result.credit * 10000) !== Math.round(Number(response.credit) * 10000) ||
+          result.points_possible !== Number(response.points_possible)
+        );
+      const changedIds = new Set(changed.map(c => c.response.id));
+      const sessions = new Map(changed.map(c => [c.response.session_id, c.response.quiz_sessions]));
+
+      if (preview) {
+        return jsonResponse({
+          version: quiz.version,
+          responses_checked: responses.length,
+          responses_changed: changed.length,
+          sessions_changed: sessions.size
+        });
+      }
+
+      const responseUpdates = await Promise.all([
+        ...changed.map(({ response, result }) =>
+          supabaseAdmin
+            .from('quiz_responses')
+            .update({
+              is_correct: result.is_correct,
+              credit: result.credit,
+              points_awarded: result.points_awarded,
+              points_possible: result.points_possible,
+              part_results: result.parts ?? null,
+              hint_penalty: result.hint_penalty,
+              quiz_version: quiz.version
+            })
+            .eq('id', response.id)
+        ),
+        // Unchanged responses are marked as checked against this version too
+        ...chunked(responses.filter(r => !changedIds.has(r.id)).map(r => r.id)).map(ids =>
+          supabaseAdmin
+            .from('quiz_responses')
+            .update({ quiz_version: quiz.version })
+            .in('id', ids)
+        )
+      ]);
+
+      const responseUpdateError = responseUpdates.find(u => u.error)?.error;
+      if (responseUpdateError) {
+        console.error('Error saving regraded responses:', responseUpdateError);
+        throw new Error(`Failed to save regraded responses: ${responseUpdateError.message}`);
+      }
+
+      // Attempt totals are recomputed from all of the attempt's responses
+      const attemptResponses: { session_id: string; is_correct: boolean; points_awarded: number; points_possible: number }[] = [];
+      for (const ids of chunked([...sessions.keys()])) {
+        for (let from = 0; ; from += RESPONSE_PAGE_SIZE) {
+          const { data: page, error: attemptError } = await supabaseAdmin
+            .from('quiz_responses')
+            .select('session_id, is_correct, points_awarded, points_possible')
+            .in('session_id', ids)
+            .order('id')
+            .range(from, from + RESPONSE_PAGE_SIZE - 1);
+
+          if (attemptError) {
+            console.error('Error fetching attempt responses:', attemptError);
+            throw new Error(`Failed to load attempt responses: ${attemptError.message}`);
+          }
+
+          (page ?? []).forEach(r => attemptResponses.push({
+            session_id: r.session_id,
+            is_correct: r.is_correct,
+            points_awarded: Number(r.points_awarded),
+            points_possible: Number(r.points_possible)
+          }));
+          if (!page || page.length < RESPONSE_PAGE_SIZE) break;
+        }
+      }
+
+      const totals = [...sessions.keys()].map(sessionId => ({
+        session_id: sessionId,
+        summary: summarizeResults(attemptResponses.filter(r => r.session_id === sessionId))
+      }));
+      const sessionUpdates = await Promise.all(totals.map(total =>
+        supabaseAdmin
+          .from('quiz_sessions')
+          .update(total.summary)
+          .eq('id', total.session_id)
+      ));
+
+      const sessionUpdateError = sessionUpdates.find(u => u.error)?.error;
+      if (sessionUpdateError) {
+        console.error('Error saving regraded attempts:', sessionUpdateError);
+        throw new Error(`Failed to save regraded attempts: ${sessionUpdateError.message}`);
+      }
+
+      const { data: regrade, error: regradeError } = await supabaseAdmin
+        .from('quiz_regrades')
+        .insert({
+          quiz_id: quiz.id,
+          module_id,
+          version: quiz.version,
+          regraded_by: user.id,
+          reason: reason?.trim() || null,
+          responses_checked: responses.length,
+          responses_changed: changed.length,
+          sessions_changed: sessions.size
+        })
+        .select('id')
+        .single();
+
+      if (regradeError) {
+        console.error('Error recording regrade:', regradeError);
+        throw new Error(`Failed to record regrade: ${regradeError.message}`);
+      }
+
+      if (changed.length > 0) {
+        const { error: changesError } = await supabaseAdmin
+          .from('quiz_regrade_changes')
+          .insert(changed.map(({ response, result }) => ({
+            regrade_id: regrade.id,
+            response_id: response.id,
+            session_id: response.session_id,
+            user_id: response.quiz_sessions.user_id,
+            previous_version: response.quiz_version,
+            previous_credit: Number(response.credit),
+            new_credit: result.credit,
+            previous_points: Number(response.points_awarded),
+            new_points: result.points_awarded
+          })));
+
+        if (changesError) {
+          console.error('Error recording regrade changes:', changesError);
+          throw new Error(`Failed to record regrade changes: ${changesError.message}`);
+        }
+      }
+
+      // Unreleased exam scores stay hidden, so those students only hear that something changed
+      if (totals.length > 0) {
+        const { data: moduleRow } = await supabaseAdmin
+          .from('modules')
+          .select('title')
+          .eq('id', module_id)
+          .maybeSingle();
+        const title = moduleRow?.title ?? 'a quiz';
+        const now = new Date();
+
+        const { error: notifyError } = await supabaseAdmin
+          .from('notifications')
+          .insert(totals.map(total => {
+            const attempt = sessions.get(total.session_id)!;
+            const previousScore = Number(attempt.score);
+            return {
+              user_id: attempt.user_id,
+              title: 'Quiz regraded',
+              body: !isFeedbackReleased(attempt, now)
+                ? `A question on your "${title}" exam was regraded. Your updated score will be shown when results are released.`
+                : previousScore === total.summary.score
+                  ? `A corrected answer key changed how a question on "${title}" was marked. Your score is still ${previousScore}%.`
+                  : `A corrected answer key changed your score on "${title}" from ${previousScore}% to ${total.summary.score}%.`,
+              link: `/quiz-results/${total.session_id}`
+            };
+          }));
+
+        // The regrade is already recorded, so a notification failure doesn't fail it
+        if (notifyError) console.error('Error notifying students of regrade:', notifyError);
+      }
+
+      console.log(`Regraded question ${quiz.id} to version ${quiz.version}: ${changed.length} of ${responses.length} responses changed`);
+      return jsonResponse({
+        regrade_id: regrade.id,
+        version: quiz.version,
+        responses_checked: responses.length,
+        responses_changed: changed.length,
+        sessions_changed: sessions.size
+      });
+    }
+
+    if (!session_id) {
+      return jsonResponse({ error: 'session_id is required' }, 400);
+    }
+
+    if (action === 'review') {
+      const { data: attempt, error: attemptError } = await supabaseAdmin
+        .from('quiz_sessions')
+        .select('id, user_id, status, mode, feedback_release_at, layout')
+        .eq('id', session_id)
+        .eq('module_id', module_id)
+        .maybeSingle();
+
+      if (attemptError) {
+        console.error('Error fetching attempt:', attemptError);
+        throw new Error(`Failed to load attempt: ${attemptError.message}`);
+      }
+
+      // Students review their own attempts; admins can review anyone's
+      const reviewerIsAdmin = !!attempt && attempt.user_id !== user.id && await isAdmin(user.id);
+
+      if (!attempt || (attempt.user_id !== user.id && !reviewerIsAdmin)) {
+        return jsonResponse({ error: 'Quiz attempt not found' }, 404);
+      }
+
+      if (attempt.status !== 'submitted') {
+        return jsonResponse({ error: 'This attempt has not been submitted yet' }, 409);
+      }
+
+      if (!reviewerIsAdmin && !isFeedbackReleased(attempt)) {
+        return jsonResponse({
+          error: 'Results for this attempt have not been released yet',
+          feedback_release_at: attempt.feedback_release_at
+        }, 403);
+      }
+
+      const { data: responses, error: responsesError } = await supabaseAdmin
+        .from('quiz_responses')
+        .select('quiz_id, position, answer, is_correct, credit, points_awarded, points_possible, params, part_results, hints_used, hint_penalty, time_spent_ms')
+        .eq('session_id', attempt.id)
+        .order('position');
+
+      if (responsesError) {
+        console.error('Error fetching responses:', responsesError);
+        throw new Error(`Failed to load responses: ${responsesError.message}`);
+      }
+
+      // Questions are shown with the values and option order the student saw
+      const layout = attempt.layout as AttemptLayout | null;
+      const byId = new Map(quizzes.map(q => [q.id, q]));
+      const questions: ReviewedQuestion[] = (responses ?? []).map(r => {
+        const quiz = r.quiz_id ? byId.get(r.quiz_id) : undefined;
+        const params = (r.params ?? {}) as QuestionParams;
+        const fill = (text: string) => quiz && usesVariables(quiz.type) ? fillTemplate(text, params) : text;
+
+        return {
+          quiz_id: r.quiz_id,
+          position: r.position,
+          question: quiz ? fill(quiz.question) : null,
+          type: quiz?.type ?? null,
+          answer_config: quiz?.answer_config ?? null,
+          options: quiz ? applyOptionOrder(parseOptions(quiz.options), layout?.option_orders?.[quiz.id]) : [],
+          part_prompts: (quiz?.answer_config?.parts ?? []).map(part => fill(part.prompt)),
+          answer: r.answer,
+          is_correct: r.is_correct,
+          credit: Number(r.credit),
+          points_awarded: Number(r.points_awarded),
+          points_possible: Number(r.points_possible),
+          correct_answer: quiz ? formatCorrectAnswer(quiz, params) : null,
+          explanation: quiz?.explanation ?? null,
+          parts: r.part_results as PartFeedback[] | null,
+          hints_used: r.hints_used,
+          hint_penalty: Number(r.hint_penalty),
+          time_spent_ms: r.time_spent_ms
+        };
+      });
+
+      return jsonResponse({ session_id: attempt.id, questions });
+    }
+
+    const { data: session, error: sessionError } = await supabaseAdmin
+      .from('quiz_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('id', session_id)
+      .eq('user_id', user.id)
+      .eq('module_id', module_id)
+      .maybeSingle();
+
+    if (sessionError) {
+      console.error('Error fetching session:', sessionError);
+      throw new Error(`Failed to load session: ${sessionError.message}`);
+    }
+
+    if (!session) {
+      return jsonResponse({ error: 'Quiz session not found' }, 404);
+    }
+
+    if (session.status !== 'in_progress') {
+      return jsonResponse({ error: 'This attempt has already been submitted' }, 409);
+    }
+
+    const seed = session.seed ?? '';
+    const now = new Date();
+    const attemptQuizzes = sessionQuizzes(quizzes, session);
+
+    if (action === 'save') {
+      if (isPastDeadline(session, now)) {
+        return jsonResponse({ error: 'Time is up for this attempt' }, 409);
+      }
+
+      const draft: QuizDraft = { answers, time_spent, position };
+      const { error: saveError } = await supabaseAdmin
+        .from('quiz_sessions')
+        .update({ draft, draft_saved_at: now.toISOString() })
+        .eq('id', session.id)
+        .eq('status', 'in_progress');
+
+      if (saveError) {
+        console.error('Error saving draft:', saveError);
+        throw new Error(`Failed to save draft: ${saveError.message}`);
+      }
+
+      return jsonResponse({ saved_at: now.toISOString() });
+    }
+
+    if (action === 'check') {
+      if (session.mode === 'exam') {
+        return jsonResponse({ error: 'Answers are not checked during an exam' }, 403);
+      }
+
+      if (isPastDeadline(session, now)) {
+        return jsonResponse({ error: 'Time is up for this attempt' }, 409);
+      }
+
+      const quiz = attemptQuizzes.find(q => q.id === quiz_id);
+      if (!quiz) {
+        return jsonResponse({ error: 'Question not found' }, 404);
+      }
+
+      return jsonResponse(gradeQuestion(quiz, answer, seed, session.hints_used?.[quiz.id]));
+    }
+
+    if (action === 'hint') {
+      if (isPastDeadline(session, now)) {
+        return jsonResponse({ error: 'Time is up for this attempt' }, 409);
+      }
+
+      const quiz = attemptQuizzes.find(q => q.id === quiz_id);
+      if (!quiz) {
+        return jsonResponse({ error: 'Question not found' }, 404);
+      }
+
+      const hints = quiz.hints ?? [];
+      const used = session.hints_used?.[quiz.id] ?? 0;
+      if (used >= hints.length) {
+        return jsonResponse({ error: 'There are no more hints for this question' }, 404);
+      }
+
+      // Recorded before the hint is handed out so it is always charged for
+      const { error: hintError } = await supabaseAdmin
+        .from('quiz_sessions')
+        .update({ hints_used: { ...session.hints_used, [quiz.id]: used + 1 } })
+        .eq('id', session.id)
+        .eq('status', 'in_progress');
+
+      if (hintError) {
+        console.error('Error recording hint:', hintError);
+        throw new Error(`Failed to record hint: ${hintError.message}`);
+      }
+
+      return jsonResponse({ quiz_id: quiz.id, hints_used: used + 1, hint: hints[used] });
+    }
+
+    if (action === 'next') {
+      if (!session.layout?.adaptive) {
+        return jsonResponse({ error: 'This attempt is not adaptive' }, 400);
+      }
+
+      if (isPastDeadline(session, now)) {
+        return jsonResponse({ error: 'Time is up for this attempt' }, 409);
+      }
+
+      if (session.layout.adaptive.finished) {
+        return jsonResponse({ layout: session.layout });
+      }
+
+      // Answers so far set the ability estimate the next question is chosen for
+      const results = attemptQuizzes.map(quiz =>
+        gradeQuestion(quiz, answers[quiz.id], seed, session.hints_used?.[quiz.id])
+      );
+      const layout = advanceAdaptiveLayout(session.layout, adaptiveItems(activeQuizzes), abilityFrom(results, quizzes), seed);
+      const draft: QuizDraft = { answers, time_spent, position };
+
+      const { data: advanced, error: advanceError } = await supabaseAdmin
+        .from('quiz_sessions')
+        .update({ layout, draft, draft_saved_at: now.toISOString() })
+        .eq('id', session.id)
+        .eq('status', 'in_progress')
+        .select('id')
+        .maybeSingle();
+
+      if (advanceError) {
+        console.error('Error choosing the next question:', advanceError);
+        throw new Error(`Failed to choose the next question: ${advanceError.message}`);
+      }
+
+      if (!advanced) {
+        return jsonResponse({ error: 'This attempt has already been submitted' }, 409);
+      }
+
+      return jsonResponse({ layout, saved_at: now.toISOString() });
+    }
+
+    if (action === 'submit') {
+      console.log(`Grading quiz session ${session.id} for module ${module_id}, user ${user.id}`);
+
+      // Answers sent after the deadline don't count: the attempt is graded on the last
+      // draft autosaved in time and closed as of the deadline
+      const late = isPastDeadline(session, now);
+      const submittedAnswers = late ? session.draft?.answers ?? {} : answers;
+      const submittedTimeSpent = late ? session.draft?.time_spent ?? {} : time_spent;
+
+      const results = attemptQuizzes.map(quiz =>
+        gradeQuestion(quiz, submittedAnswers[quiz.id], seed, session.hints_used?.[quiz.id])
+      );
+      const summary = summarizeResults(results);
+      const estimate = session.layout?.adaptive ? abilityFrom(results, quizzes) : null;
+
+      // Responses are recorded before the session is closed, so a submitted attempt always has
+      // them. Only the first submission gets past the unique (session_id, position) index.
+      const { error: responsesError } = await supabaseAdmin
+        .from('quiz_responses')
+        .insert(results.map((r, position) => ({
+          session_id: session.id,
+          quiz_id: r.quiz_id,
+          position,
+          answer: submittedAnswers[r.quiz_id] || '',
+          is_correct: r.is_correct,
+          credit: r.credit,
+          points_awarded: r.points_awarded,
+          points_possible: r.points_possible,
+          params: paramsFor(attemptQuizzes[position], seed),
+          quiz_version: attemptQuizzes[position].version,
+          part_results: r.parts ?? null,
+          hints_used: r.hints_used,
+          hint_penalty: r.hint_penalty,
+          time_spent_ms: Number.isFinite(submittedTimeSpent[r.quiz_id]) ? Math.round(submittedTimeSpent[r.quiz_id]) : null
+        })));
+
+      if (responsesError?.code === UNIQUE_VIOLATION) {
+        return jsonResponse({ error: 'This attempt has already been submitted' }, 409);
+      }
+
+      if (responsesError) {
+        console.error('Error recording responses:', responsesError);
+        throw new Error(`Failed to record responses: ${responsesError.message}`);
+      }
+
+      const { data: closed, error: closeError } = await supabaseAdmin
+        .from('quiz_sessions')
+        .update({
+          status: 'submitted',
+          ...summary,
+          question_count: results.length,
+          ability: estimate?.ability ?? null,
+          ability_se: estimate?.standard_error ?? null,
+          submitted_at: late ? session.expires_at : now.toISOString(),
+          draft: null,
+          draft_saved_at: null
+        })
+        .eq('id', session.id)
+        .eq('status', 'in_progress')
+        .select('id')
+        .maybeSingle();
+
+      // Without a closed session the responses would block a retry, so they are removed again
+      if (closeError || !closed) {
+        const { error: cleanupError } = await supabaseAdmin
+          .from('quiz_responses')
+          .delete()
+          .eq('session_id', session.id);
+        if (cleanupError) console.error('Error removing responses of an unrecorded session:', cleanupError);
+      }
+
+      if (closeError) {
+        console.error('Error recording session:', closeError);
+        throw new Error(`Failed to record session: ${closeError.message}`);
+      }
+
+      if (!closed) {
+        return jsonResponse({ error: 'This attempt has already been submitted' }, 409);
+      }
+
+      // Missed questions join the student's review queue, due once the attempt's answers can be seen.
+      // Missing one again puts it back to the start of its schedule.
+      const missed = results.filter(r => !r.is_correct && activeQuizzes.some(q => q.id === r.quiz_id));
+      // Unreleased exam misses are only added, hidden until the release date: changing a
+      // question already in the queue would give away that it was missed.
+      if (missed.length > 0) {
+        const released = isFeedbackReleased(session, now);
+        const { error: queueError } = await supabaseAdmin
+          .from('review_items')
+          .upsert(missed.map(r => ({
+            user_id: user.id,
+            quiz_id: r.quiz_id,
+            module_id,
+            repetitions: 0,
+            interval_days: 0,
+            due_at: released ? now.toISOString() : session.feedback_release_at,
+            hidden_until: released ? null : session.feedback_release_at
+          })), { onConflict: 'user_id,quiz_id', ignoreDuplicates: !released });
+
+        // The attempt is already recorded, so a queue failure doesn't fail the submission
+        if (queueError) console.error('Error queueing missed questions for review:', queueError);
+      }
+
+      // Lets the student know whether and when they can try again
+      const { data: limits } = await supabaseAdmin
+        .from('quiz_settings')
+        .select('mode, max_attempts, cooldown_minutes')
+        .eq('module_id', module_id)
+        .maybeSingle();
+      const allowance = await fetchAllowance(user.id, module_id, limits, now);
+
+      // Exam scores and answers stay hidden until the release date
+      if (!isFeedbackReleased(session, now)) {
+        return jsonResponse({
+          session_id: session.id,
+          mode: session.mode,
+          released: false,
+          feedback_release_at: session.feedback_release_at,
+          total: results.length,
+          late,
+          allowance
+        });
+      }
+
+      return jsonResponse({
+        session_id: session.id,
+        mode: session.mode,
+        released: true,
+        ...summary,
+        total: results.length,
+        late,
+        results,
+        ability: estimate,
+        allowance
+      });
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+
+  } catch (error) {
+    console.error('Error in grade-quiz function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unexpected error' }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,8 @@
+-- Grading configuration for non-MCQ questions (numeric tolerance, units, significant figures)
+ALTER TABLE public.quizzes
+ADD COLUMN IF NOT EXISTS answer_config JSONB;
+
+-- Numeric questions must store a parseable target value
+ALTER TABLE public.quizzes
+ADD CONSTRAINT numeric_correct_answer
+CHECK (type <> 'numeric' OR correct_answer ~ '^[-+]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][-+]?[0-9]+)?$');
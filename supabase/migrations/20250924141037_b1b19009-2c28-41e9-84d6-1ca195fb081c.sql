@@ -0,0 +1,50 @@
+-- Hide answer keys from students: quizzes are graded by the grade-quiz edge function
+
+-- Subset of answer_config that students need to render a question
+CREATE OR REPLACE FUNCTION public.quiz_public_config(quiz public.quizzes)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE quiz.type
+    WHEN 'numeric' THEN jsonb_strip_nulls(jsonb_build_object(
+      'unit', quiz.answer_config -> 'unit',
+      'sig_figs', quiz.answer_config -> 'sig_figs'
+    ))
+    ELSE '{}'::jsonb
+  END;
+$$;
+
+-- Student-facing view without correct_answer or explanation.
+-- Runs with the owner's privileges so it can read quizzes after students lose direct access.
+CREATE OR REPLACE VIEW public.quiz_questions AS
+SELECT
+  q.id,
+  q.module_id,
+  q.question,
+  q.type,
+  q.options,
+  public.quiz_public_config(q) AS answer_config,
+  q.created_at
+FROM public.quizzes q;
+
+REVOKE ALL ON public.quiz_questions FROM anon;
+GRANT SELECT ON public.quiz_questions TO authenticated;
+
+-- Only admins may read the quizzes table itself
+DROP POLICY IF EXISTS "Anyone can view quizzes" ON public.quizzes;
+
+CREATE POLICY "Only admins can view quizzes"
+ON public.quizzes
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+-- Attempts are recorded by the grade-quiz edge function, never directly by students
+DROP POLICY IF EXISTS "Users can insert their own quiz attempts" ON public.quiz_attempts;
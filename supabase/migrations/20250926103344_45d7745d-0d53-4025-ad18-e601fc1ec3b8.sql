@@ -0,0 +1,106 @@
+-- One row per module quiz attempt, replacing quiz_attempts rows keyed by the module's first quiz
+CREATE TABLE public.quiz_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  module_id UUID NOT NULL REFERENCES public.modules(id) ON DELETE CASCADE,
+  score DECIMAL(5,2) NOT NULL,
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  question_count INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per question answered in a session.
+-- quiz_id is kept nullable so responses survive questions being deleted.
+CREATE TABLE public.quiz_responses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.quiz_sessions(id) ON DELETE CASCADE,
+  quiz_id UUID REFERENCES public.quizzes(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL,
+  answer TEXT NOT NULL DEFAULT '',
+  is_correct BOOLEAN NOT NULL DEFAULT FALSE,
+  time_spent_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_user_module ON public.quiz_sessions (user_id, module_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_submitted_at ON public.quiz_sessions (submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quiz_responses_session_id ON public.quiz_responses (session_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_responses_quiz_id ON public.quiz_responses (quiz_id);
+
+-- Enable RLS
+ALTER TABLE public.quiz_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_responses ENABLE ROW LEVEL SECURITY;
+
+-- Sessions and responses are written by the grade-quiz edge function only
+CREATE POLICY "Users can view their own quiz sessions"
+ON public.quiz_sessions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all quiz sessions"
+ON public.quiz_sessions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+CREATE POLICY "Users can view their own quiz responses"
+ON public.quiz_responses
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.quiz_sessions s
+    WHERE s.id = session_id AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all quiz responses"
+ON public.quiz_responses
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+-- Migrate existing attempts, reusing the attempt id as the session id
+INSERT INTO public.quiz_sessions (id, user_id, module_id, score, correct_count, question_count, started_at, submitted_at)
+SELECT
+  a.id,
+  a.user_id,
+  q.module_id,
+  a.score,
+  (SELECT count(*) FROM jsonb_array_elements(a.answers) r WHERE (r ->> 'is_correct')::boolean),
+  jsonb_array_length(a.answers),
+  a.attempt_date,
+  a.attempt_date
+FROM public.quiz_attempts a
+JOIN public.quizzes q ON q.id = a.quiz_id
+WHERE jsonb_typeof(a.answers) = 'array'
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.quiz_responses (session_id, quiz_id, position, answer, is_correct, created_at)
+SELECT
+  a.id,
+  q.id,
+  r.ordinality - 1,
+  COALESCE(r.value ->> 'user_answer', ''),
+  COALESCE((r.value ->> 'is_correct')::boolean, FALSE),
+  a.attempt_date
+FROM public.quiz_attempts a
+JOIN public.quiz_sessions s ON s.id = a.id
+CROSS JOIN LATERAL jsonb_array_elements(a.answers) WITH ORDINALITY AS r(value, ordinality)
+LEFT JOIN public.quizzes q ON q.id = (r.value ->> 'quiz_id')::uuid;
+
+COMMENT ON TABLE public.quiz_attempts IS 'Legacy: superseded by quiz_sessions and quiz_responses';
+
+-- Realtime updates for the analytics dashboard
+ALTER TABLE public.quiz_sessions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.quiz_sessions;
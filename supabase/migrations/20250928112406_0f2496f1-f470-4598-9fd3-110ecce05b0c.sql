@@ -0,0 +1,29 @@
+-- Calculated questions: a formula over variables drawn per student.
+-- The formula is stored in correct_answer; answer_config holds the variable ranges plus numeric unit and tolerance.
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'calculated';
+
+-- Seed the variable values of an attempt were drawn from, and the values each question used
+ALTER TABLE public.quiz_sessions ADD COLUMN IF NOT EXISTS seed TEXT;
+ALTER TABLE public.quiz_responses ADD COLUMN IF NOT EXISTS params JSONB;
+
+-- Students need the variable ranges to render their copy of the question, but never the formula.
+-- Compared as text because the new enum value can't be used in the transaction that adds it.
+CREATE OR REPLACE FUNCTION public.quiz_public_config(quiz public.quizzes)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN quiz.type::text = 'numeric' THEN jsonb_strip_nulls(jsonb_build_object(
+      'unit', quiz.answer_config -> 'unit',
+      'sig_figs', quiz.answer_config -> 'sig_figs'
+    ))
+    WHEN quiz.type::text = 'calculated' THEN jsonb_strip_nulls(jsonb_build_object(
+      'unit', quiz.answer_config -> 'unit',
+      'sig_figs', quiz.answer_config -> 'sig_figs',
+      'variables', quiz.answer_config -> 'variables'
+    ))
+    ELSE '{}'::jsonb
+  END;
+$$;
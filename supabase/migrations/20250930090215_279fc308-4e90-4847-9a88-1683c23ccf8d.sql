@@ -0,0 +1,89 @@
+-- Per-module quiz settings, starting with an optional time limit
+CREATE TABLE public.quiz_settings (
+  module_id UUID NOT NULL PRIMARY KEY REFERENCES public.modules(id) ON DELETE CASCADE,
+  time_limit_minutes INTEGER CHECK (time_limit_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Extended time for individual students, applied to every timed quiz
+CREATE TABLE public.student_accommodations (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  time_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1 CHECK (time_multiplier >= 1),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.quiz_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_accommodations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quiz settings"
+ON public.quiz_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage quiz settings"
+ON public.quiz_settings
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+CREATE POLICY "Users can view their own accommodations"
+ON public.student_accommodations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage accommodations"
+ON public.student_accommodations
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+CREATE TRIGGER update_quiz_settings_updated_at
+  BEFORE UPDATE ON public.quiz_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_student_accommodations_updated_at
+  BEFORE UPDATE ON public.student_accommodations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sessions are now opened by the grade-quiz function when a quiz starts, so the
+-- start time (and deadline, for timed quizzes) comes from the server clock.
+CREATE TYPE public.quiz_session_status AS ENUM ('in_progress', 'submitted');
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN status public.quiz_session_status NOT NULL DEFAULT 'submitted',
+  ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+  ALTER COLUMN score SET DEFAULT 0,
+  ALTER COLUMN submitted_at DROP NOT NULL,
+  ALTER COLUMN submitted_at DROP DEFAULT;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_in_progress
+ON public.quiz_sessions (user_id, module_id)
+WHERE status = 'in_progress';
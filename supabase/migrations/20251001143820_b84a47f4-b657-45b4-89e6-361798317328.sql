@@ -0,0 +1,5 @@
+-- Autosaved answers for in-progress sessions, so a quiz can be resumed after a reload or on another device.
+-- Cleared when the session is submitted.
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN draft JSONB,
+  ADD COLUMN draft_saved_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,30 @@
+-- Question banks: each module's questions form a pool that attempts draw from
+CREATE TYPE public.question_difficulty AS ENUM ('easy', 'medium', 'hard');
+
+ALTER TABLE public.quizzes
+  ADD COLUMN difficulty public.question_difficulty,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- draw_rules: [{ "count": 5, "difficulty": "hard", "tag": "convection" }, ...]; empty asks every question
+ALTER TABLE public.quiz_settings
+  ADD COLUMN draw_rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN shuffle_questions BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN shuffle_options BOOLEAN NOT NULL DEFAULT false;
+
+-- Questions drawn for the attempt in display order and each question's option permutation.
+-- Generated from the session seed when the attempt starts and kept for review.
+ALTER TABLE public.quiz_sessions ADD COLUMN layout JSONB;
+
+-- Difficulty and tags are not secret; new columns go last so the view can be replaced in place
+CREATE OR REPLACE VIEW public.quiz_questions AS
+SELECT
+  q.id,
+  q.module_id,
+  q.question,
+  q.type,
+  q.options,
+  public.quiz_public_config(q) AS answer_config,
+  q.created_at,
+  q.difficulty,
+  q.tags
+FROM public.quizzes q;
@@ -0,0 +1,63 @@
+-- Multi-select questions: correct_answer and answers are JSON arrays of option text
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'multi';
+
+-- Questions are weighted by points and may earn partial credit
+ALTER TABLE public.quizzes
+  ADD COLUMN points NUMERIC(6,2) NOT NULL DEFAULT 1 CHECK (points > 0);
+
+ALTER TABLE public.quiz_responses
+  ADD COLUMN credit NUMERIC(5,4) NOT NULL DEFAULT 0 CHECK (credit BETWEEN 0 AND 1),
+  ADD COLUMN points_awarded NUMERIC(6,2) NOT NULL DEFAULT 0,
+  ADD COLUMN points_possible NUMERIC(6,2) NOT NULL DEFAULT 1;
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN points_earned NUMERIC(8,2) NOT NULL DEFAULT 0,
+  ADD COLUMN points_possible NUMERIC(8,2) NOT NULL DEFAULT 0;
+
+-- Existing attempts were scored one point per question
+UPDATE public.quiz_responses
+SET credit = CASE WHEN is_correct THEN 1 ELSE 0 END,
+    points_awarded = CASE WHEN is_correct THEN 1 ELSE 0 END;
+
+UPDATE public.quiz_sessions
+SET points_earned = correct_count,
+    points_possible = question_count
+WHERE status = 'submitted';
+
+-- Students see how multi-select questions are scored
+CREATE OR REPLACE FUNCTION public.quiz_public_config(quiz public.quizzes)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN quiz.type::text = 'numeric' THEN jsonb_strip_nulls(jsonb_build_object(
+      'unit', quiz.answer_config -> 'unit',
+      'sig_figs', quiz.answer_config -> 'sig_figs'
+    ))
+    WHEN quiz.type::text = 'calculated' THEN jsonb_strip_nulls(jsonb_build_object(
+      'unit', quiz.answer_config -> 'unit',
+      'sig_figs', quiz.answer_config -> 'sig_figs',
+      'variables', quiz.answer_config -> 'variables'
+    ))
+    WHEN quiz.type::text = 'multi' THEN jsonb_strip_nulls(jsonb_build_object(
+      'scoring', quiz.answer_config -> 'scoring'
+    ))
+    ELSE '{}'::jsonb
+  END;
+$$;
+
+CREATE OR REPLACE VIEW public.quiz_questions AS
+SELECT
+  q.id,
+  q.module_id,
+  q.question,
+  q.type,
+  q.options,
+  public.quiz_public_config(q) AS answer_config,
+  q.created_at,
+  q.difficulty,
+  q.tags,
+  q.points
+FROM public.quizzes q;
@@ -0,0 +1,32 @@
+-- Ordered hints students can reveal during a quiz: [{ "text": ..., "penalty": <percent of the question's points> }]
+ALTER TABLE public.quizzes
+  ADD COLUMN hints JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Number of hints revealed so far in an attempt, keyed by quiz id
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN hints_used JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Hints revealed for each answer and the share of its points they cost
+ALTER TABLE public.quiz_responses
+  ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0 CHECK (hints_used >= 0),
+  ADD COLUMN hint_penalty NUMERIC(5,4) NOT NULL DEFAULT 0 CHECK (hint_penalty BETWEEN 0 AND 1);
+
+-- Hint text is only handed out by the grade-quiz function as each hint is revealed;
+-- students see what each one will cost
+CREATE OR REPLACE VIEW public.quiz_questions AS
+SELECT
+  q.id,
+  q.module_id,
+  q.question,
+  q.type,
+  q.options,
+  public.quiz_public_config(q) AS answer_config,
+  q.created_at,
+  q.difficulty,
+  q.tags,
+  q.points,
+  (
+    SELECT COALESCE(jsonb_agg(COALESCE(hint -> 'penalty', '0'::jsonb) ORDER BY position), '[]'::jsonb)
+    FROM jsonb_array_elements(q.hints) WITH ORDINALITY AS h(hint, position)
+  ) AS hint_penalties
+FROM public.quizzes q;
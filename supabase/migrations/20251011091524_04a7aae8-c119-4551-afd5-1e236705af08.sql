@@ -0,0 +1,31 @@
+-- Practice quizzes give feedback as students go and don't count toward grades;
+-- exams withhold feedback until submission, or until a release date if one is set
+CREATE TYPE public.quiz_mode AS ENUM ('practice', 'exam');
+
+ALTER TABLE public.quiz_settings
+  ADD COLUMN mode public.quiz_mode NOT NULL DEFAULT 'practice',
+  ADD COLUMN feedback_release_at TIMESTAMP WITH TIME ZONE;
+
+-- Attempts are tagged with the mode they were taken in and carry the module's release date
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN mode public.quiz_mode NOT NULL DEFAULT 'practice',
+  ADD COLUMN feedback_release_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_quiz_sessions_mode ON public.quiz_sessions(mode);
+
+-- Moving the release date moves it for exam attempts already taken
+CREATE OR REPLACE FUNCTION public.sync_feedback_release()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.quiz_sessions
+  SET feedback_release_at = NEW.feedback_release_at
+  WHERE module_id = NEW.module_id AND mode = 'exam';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_quiz_settings_feedback_release
+  AFTER UPDATE OF feedback_release_at ON public.quiz_settings
+  FOR EACH ROW
+  WHEN (OLD.feedback_release_at IS DISTINCT FROM NEW.feedback_release_at)
+  EXECUTE FUNCTION public.sync_feedback_release();
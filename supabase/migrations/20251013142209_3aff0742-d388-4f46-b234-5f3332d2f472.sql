@@ -0,0 +1,9 @@
+-- Which attempt counts toward a student's grade for a module
+CREATE TYPE public.score_policy AS ENUM ('best', 'latest', 'average');
+
+-- Null max_attempts and cooldown_minutes leave retakes unrestricted.
+-- Enforced by the grade-quiz function when an attempt is started.
+ALTER TABLE public.quiz_settings
+  ADD COLUMN max_attempts INTEGER CHECK (max_attempts > 0),
+  ADD COLUMN cooldown_minutes INTEGER CHECK (cooldown_minutes > 0),
+  ADD COLUMN score_policy public.score_policy NOT NULL DEFAULT 'average';
@@ -0,0 +1,50 @@
+-- Matching questions pair prompts in answer_config with options; answers are JSON arrays of
+-- the option chosen for each prompt. Ordering questions store their items alphabetically in
+-- options and the correct order in correct_answer.
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'matching';
+ALTER TYPE public.question_type ADD VALUE IF NOT EXISTS 'ordering';
+
+-- Students see the prompts of matching questions; the matches stay in correct_answer
+CREATE OR REPLACE FUNCTION public.quiz_public_config(quiz public.quizzes)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN quiz.type::text = 'numeric' THEN jsonb_strip_nulls(jsonb_build_object(
+      'unit', quiz.answer_config -> 'unit',
+      'sig_figs', quiz.answer_config -> 'sig_figs'
+    ))
+    WHEN quiz.type::text = 'calculated' THEN jsonb_strip_nulls(jsonb_build_object(
+      'unit', quiz.answer_config -> 'unit',
+      'sig_figs', quiz.answer_config -> 'sig_figs',
+      'variables', quiz.answer_config -> 'variables'
+    ))
+    WHEN quiz.type::text = 'multi' THEN jsonb_strip_nulls(jsonb_build_object(
+      'scoring', quiz.answer_config -> 'scoring'
+    ))
+    WHEN quiz.type::text = 'multipart' THEN jsonb_strip_nulls(jsonb_build_object(
+      'variables', quiz.answer_config -> 'variables',
+      'parts', (
+        SELECT jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+          'prompt', part -> 'prompt',
+          'type', part -> 'type',
+          'options', part -> 'options',
+          'weight', part -> 'weight',
+          'carry_forward', part -> 'carry_forward',
+          'answer_config', jsonb_strip_nulls(jsonb_build_object(
+            'unit', part -> 'answer_config' -> 'unit',
+            'sig_figs', part -> 'answer_config' -> 'sig_figs',
+            'scoring', part -> 'answer_config' -> 'scoring'
+          ))
+        )) ORDER BY position)
+        FROM jsonb_array_elements(quiz.answer_config -> 'parts') WITH ORDINALITY AS p(part, position)
+      )
+    ))
+    WHEN quiz.type::text = 'matching' THEN jsonb_strip_nulls(jsonb_build_object(
+      'prompts', quiz.answer_config -> 'prompts'
+    ))
+    ELSE '{}'::jsonb
+  END;
+$$;
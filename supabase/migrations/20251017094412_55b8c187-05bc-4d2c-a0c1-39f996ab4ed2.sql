@@ -0,0 +1,46 @@
+-- Spaced-repetition review queue. The grade-quiz function adds questions a student
+-- gets wrong and reschedules them (SM-2) as the student reviews them.
+CREATE TABLE public.review_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  module_id UUID NOT NULL REFERENCES public.modules(id) ON DELETE CASCADE,
+  -- Seeds the values of calculated questions; a new one is drawn after every review
+  seed TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  lapses INTEGER NOT NULL DEFAULT 0 CHECK (lapses >= 0),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, quiz_id)
+);
+
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+
+-- Reviews are graded and scheduled by the grade-quiz function, so students only read their queue
+CREATE POLICY "Users can view their own review items"
+ON public.review_items
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all review items"
+ON public.review_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+CREATE TRIGGER update_review_items_updated_at
+  BEFORE UPDATE ON public.review_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_review_items_user_due
+ON public.review_items (user_id, due_at);
@@ -0,0 +1,20 @@
+-- Adaptive quizzes. Each question carries a Rasch difficulty recalibrated from students'
+-- responses, and adaptive attempts pick each question to suit the student's running
+-- ability estimate, stopping once it is precise enough.
+ALTER TABLE public.quiz_settings
+  ADD COLUMN adaptive BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN adaptive_target_se NUMERIC(3,2) NOT NULL DEFAULT 0.5 CHECK (adaptive_target_se > 0),
+  -- Null lets an adaptive attempt ask every drawn question if it needs to
+  ADD COLUMN adaptive_max_questions INTEGER CHECK (adaptive_max_questions > 0);
+
+-- Null until the question has enough responses to calibrate; the authored difficulty is used meanwhile
+ALTER TABLE public.quizzes
+  ADD COLUMN irt_difficulty NUMERIC,
+  ADD COLUMN irt_standard_error NUMERIC,
+  ADD COLUMN irt_response_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN irt_calibrated_at TIMESTAMP WITH TIME ZONE;
+
+-- The final ability estimate of a submitted adaptive attempt, on the same scale as irt_difficulty
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN ability NUMERIC,
+  ADD COLUMN ability_se NUMERIC;
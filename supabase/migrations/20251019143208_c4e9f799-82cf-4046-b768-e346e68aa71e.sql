@@ -0,0 +1,44 @@
+-- Questions are edited in place and removed by setting deleted_at, so the attempts,
+-- responses and review history that point at them are never lost. Deleted questions are
+-- left out of new attempts but still shown when reviewing the attempts that asked them.
+ALTER TABLE public.quizzes
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_quizzes_module_active ON public.quizzes(module_id) WHERE deleted_at IS NULL;
+
+-- Deleting a module still removes its questions; single questions can only be soft-deleted
+DROP POLICY IF EXISTS "Only admins can delete quizzes" ON public.quizzes;
+
+-- A removed question leaves students' review queues
+CREATE OR REPLACE FUNCTION public.remove_deleted_quiz_reviews()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.review_items WHERE quiz_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER remove_quiz_reviews_on_delete
+  AFTER UPDATE OF deleted_at ON public.quizzes
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.remove_deleted_quiz_reviews();
+
+CREATE OR REPLACE VIEW public.quiz_questions AS
+SELECT
+  q.id,
+  q.module_id,
+  q.question,
+  q.type,
+  q.options,
+  public.quiz_public_config(q) AS answer_config,
+  q.created_at,
+  q.difficulty,
+  q.tags,
+  q.points,
+  (
+    SELECT COALESCE(jsonb_agg(COALESCE(hint -> 'penalty', '0'::jsonb) ORDER BY position), '[]'::jsonb)
+    FROM jsonb_array_elements(q.hints) WITH ORDINALITY AS h(hint, position)
+  ) AS hint_penalties,
+  q.deleted_at
+FROM public.quizzes q;
@@ -0,0 +1,165 @@
+-- Question versioning and regrading. Every change to how a question is graded makes a new
+-- version with a snapshot in quiz_revisions, and each response records the version it was
+-- graded against. The grade-quiz function's regrade action brings older responses up to
+-- the current version, logging each change and notifying the students affected.
+ALTER TABLE public.quizzes
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0);
+
+CREATE TABLE public.quiz_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  question TEXT NOT NULL,
+  type public.question_type NOT NULL,
+  options JSONB,
+  correct_answer TEXT NOT NULL,
+  answer_config JSONB,
+  explanation TEXT,
+  points NUMERIC(6,2) NOT NULL,
+  hints JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (quiz_id, version)
+);
+
+ALTER TABLE public.quiz_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the triggers below, so nobody inserts them directly
+CREATE POLICY "Admins can view quiz revisions"
+ON public.quiz_revisions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+-- Only changes that can affect grading make a new version; fixing an explanation doesn't
+CREATE OR REPLACE FUNCTION public.bump_quiz_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.question, NEW.type, NEW.options, NEW.correct_answer, NEW.answer_config, NEW.points, NEW.hints)
+     IS DISTINCT FROM (OLD.question, OLD.type, OLD.options, OLD.correct_answer, OLD.answer_config, OLD.points, OLD.hints) THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER bump_quiz_version_on_update
+  BEFORE UPDATE ON public.quizzes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_quiz_version();
+
+CREATE OR REPLACE FUNCTION public.record_quiz_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.quiz_revisions (quiz_id, version, question, type, options, correct_answer, answer_config, explanation, points, hints, created_by)
+  VALUES (NEW.id, NEW.version, NEW.question, NEW.type, NEW.options, NEW.correct_answer, NEW.answer_config, NEW.explanation, NEW.points, NEW.hints, auth.uid())
+  ON CONFLICT (quiz_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_quiz_revision_on_insert
+  AFTER INSERT ON public.quizzes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_quiz_revision();
+
+CREATE TRIGGER record_quiz_revision_on_update
+  AFTER UPDATE ON public.quizzes
+  FOR EACH ROW
+  WHEN (OLD.version IS DISTINCT FROM NEW.version)
+  EXECUTE FUNCTION public.record_quiz_revision();
+
+-- Existing questions start at version 1
+INSERT INTO public.quiz_revisions (quiz_id, version, question, type, options, correct_answer, answer_config, explanation, points, hints)
+SELECT id, version, question, type, options, correct_answer, answer_config, explanation, points, hints
+FROM public.quizzes;
+
+-- Null for responses recorded before versioning, which a regrade always rechecks
+ALTER TABLE public.quiz_responses
+  ADD COLUMN quiz_version INTEGER;
+
+-- One row per regrade, and one per response whose grade it changed
+CREATE TABLE public.quiz_regrades (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  module_id UUID NOT NULL REFERENCES public.modules(id) ON DELETE CASCADE,
+  -- The version responses were regraded against
+  version INTEGER NOT NULL,
+  regraded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT,
+  responses_checked INTEGER NOT NULL DEFAULT 0,
+  responses_changed INTEGER NOT NULL DEFAULT 0,
+  sessions_changed INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.quiz_regrade_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  regrade_id UUID NOT NULL REFERENCES public.quiz_regrades(id) ON DELETE CASCADE,
+  response_id UUID REFERENCES public.quiz_responses(id) ON DELETE SET NULL,
+  session_id UUID NOT NULL REFERENCES public.quiz_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous_version INTEGER,
+  previous_credit NUMERIC(5,4) NOT NULL,
+  new_credit NUMERIC(5,4) NOT NULL,
+  previous_points NUMERIC(6,2) NOT NULL,
+  new_points NUMERIC(6,2) NOT NULL
+);
+
+CREATE INDEX idx_quiz_regrades_quiz_id ON public.quiz_regrades(quiz_id);
+CREATE INDEX idx_quiz_regrade_changes_regrade_id ON public.quiz_regrade_changes(regrade_id);
+
+ALTER TABLE public.quiz_regrades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_regrade_changes ENABLE ROW LEVEL SECURITY;
+
+-- Regrades are run by the grade-quiz function, so admins only read the trail
+CREATE POLICY "Admins can view quiz regrades"
+ON public.quiz_regrades
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+CREATE POLICY "Admins can view quiz regrade changes"
+ON public.quiz_regrade_changes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  )
+);
+
+-- Messages to students, such as a regrade changing their score
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- An in-app path to what the notification is about
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Lets students mark them read
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id);
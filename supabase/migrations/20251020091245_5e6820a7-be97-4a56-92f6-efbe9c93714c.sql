@@ -0,0 +1,67 @@
+-- Exam scores and answers stay hidden until the release date, on the server as well as in the app
+DROP POLICY IF EXISTS "Users can view their own quiz sessions" ON public.quiz_sessions;
+
+CREATE POLICY "Users can view their own released quiz sessions"
+ON public.quiz_sessions
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  AND (
+    status <> 'submitted'
+    OR mode <> 'exam'
+    OR feedback_release_at IS NULL
+    OR feedback_release_at <= now()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view their own quiz responses" ON public.quiz_responses;
+
+CREATE POLICY "Users can view their own released quiz responses"
+ON public.quiz_responses
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.quiz_sessions s
+    WHERE s.id = session_id
+      AND s.user_id = auth.uid()
+      AND (s.mode <> 'exam' OR s.feedback_release_at IS NULL OR s.feedback_release_at <= now())
+  )
+);
+
+-- Student-facing list of submitted attempts, with the score withheld until it is released.
+-- Runs with the owner's privileges so unreleased exam attempts can still be listed.
+CREATE OR REPLACE VIEW public.quiz_attempt_results AS
+SELECT
+  s.id,
+  s.user_id,
+  s.module_id,
+  s.mode,
+  s.submitted_at,
+  s.feedback_release_at,
+  s.points_possible,
+  s.question_count,
+  CASE WHEN released THEN s.score END AS score,
+  CASE WHEN released THEN s.points_earned END AS points_earned,
+  CASE WHEN released THEN s.correct_count END AS correct_count
+FROM public.quiz_sessions s
+CROSS JOIN LATERAL (
+  SELECT
+    s.mode <> 'exam'
+    OR s.feedback_release_at IS NULL
+    OR s.feedback_release_at <= now()
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    ) AS released
+) r
+WHERE s.status = 'submitted'
+  AND (
+    s.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+REVOKE ALL ON public.quiz_attempt_results FROM anon;
+GRANT SELECT ON public.quiz_attempt_results TO authenticated;
@@ -0,0 +1,4 @@
+-- Each question of an attempt is recorded once, so a second submission of the same
+-- attempt can't add another set of responses
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_responses_session_position
+  ON public.quiz_responses (session_id, position);
@@ -0,0 +1,11 @@
+-- Students may only mark their notifications read, not rewrite them
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
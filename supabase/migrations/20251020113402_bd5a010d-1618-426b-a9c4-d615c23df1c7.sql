@@ -0,0 +1,33 @@
+-- Exam questions a student missed join their review queue hidden until the exam's results are
+-- released, so the queue can't show which answers were wrong before then
+ALTER TABLE public.review_items
+  ADD COLUMN hidden_until TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY IF EXISTS "Users can view their own review items" ON public.review_items;
+
+CREATE POLICY "Users can view their own released review items"
+ON public.review_items
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  AND (hidden_until IS NULL OR hidden_until <= now())
+);
+
+-- Moving the release date moves it for exam attempts already taken, and for the
+-- review items they added that are still hidden
+CREATE OR REPLACE FUNCTION public.sync_feedback_release()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.quiz_sessions
+  SET feedback_release_at = NEW.feedback_release_at
+  WHERE module_id = NEW.module_id AND mode = 'exam';
+
+  UPDATE public.review_items
+  SET
+    hidden_until = NEW.feedback_release_at,
+    due_at = COALESCE(NEW.feedback_release_at, now())
+  WHERE module_id = NEW.module_id AND hidden_until > now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;